@@ -68,7 +68,7 @@ const $ = (sel: string) => {
 const config: CodeMirror.EditorConfiguration = {
   theme: "idea",
   // keyMap: "vim",
-  gutters: ["cmw-gutter"],
+  gutters: ["cmw-gutter", "cmw-code-action-gutter"],
   lineNumbers: true,
   matchBrackets: true,
   autoCloseBrackets: true,
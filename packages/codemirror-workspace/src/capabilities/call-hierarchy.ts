@@ -0,0 +1,90 @@
+import type { Editor } from "codemirror";
+import type {
+  CallHierarchyItem,
+  Location,
+} from "vscode-languageserver-protocol";
+
+import { showTreePanel, removeTreePanel } from "../ui/tree-panel";
+
+export type CallDirection = "incoming" | "outgoing";
+
+/**
+ * Call hierarchy item from a Language Server.
+ */
+export interface CallHierarchyNode {
+  serverId: string;
+  item: CallHierarchyItem;
+  /**
+   * Locations of the calls between the node and its parent.
+   * Empty for the root.
+   */
+  callSites: Location[];
+}
+
+export interface CallHierarchyHandlers {
+  /** Get the callers or callees of the node. */
+  getCalls: (
+    this: void,
+    node: CallHierarchyNode,
+    direction: CallDirection
+  ) => Promise<CallHierarchyNode[]>;
+  /** Show the location. */
+  open: (this: void, location: Location) => void;
+}
+
+/**
+ * Show the callers or callees of the items in a tree panel.
+ * Selecting a node jumps to its call sites in turn, or to the item itself for the roots.
+ * @param editor
+ * @param roots - Items to show the calls of.
+ * @param direction - Show the callers with "incoming", the callees with "outgoing".
+ * @param handlers - Functions to get the calls and show the locations.
+ */
+export const showCallHierarchy = (
+  editor: Editor,
+  roots: CallHierarchyNode[],
+  direction: CallDirection,
+  { getCalls, open }: CallHierarchyHandlers
+) => {
+  if (roots.length === 0) return;
+
+  // Index of the call site shown last for each node.
+  const shown = new WeakMap<CallHierarchyNode, number>();
+  showTreePanel(editor, {
+    title: direction === "incoming" ? "Incoming Calls" : "Outgoing Calls",
+    roots: roots.map(toTreeItem),
+    getChildren: async ({ node }) =>
+      (await getCalls(node, direction)).map(toTreeItem),
+    onSelect: ({ node }) => {
+      const { item, callSites } = node;
+      if (callSites.length === 0) {
+        open({ uri: item.uri, range: item.selectionRange });
+        return;
+      }
+
+      const i = ((shown.get(node) ?? -1) + 1) % callSites.length;
+      shown.set(node, i);
+      open(callSites[i]);
+    },
+  });
+};
+
+/**
+ * Remove the call hierarchy panel from the editor.
+ * @param editor
+ */
+export const removeCallHierarchy = (editor: Editor) => {
+  removeTreePanel(editor);
+};
+
+const toTreeItem = (node: CallHierarchyNode) => ({
+  label: node.item.name,
+  detail: [
+    node.item.detail,
+    node.callSites.length > 1 ? `${node.callSites.length} calls` : "",
+  ]
+    .filter((s) => !!s)
+    .join(" "),
+  kind: node.item.kind,
+  node,
+});
@@ -0,0 +1,118 @@
+import type { Editor } from "codemirror";
+import type { CodeAction, Command } from "vscode-languageserver-protocol";
+import { CodeActionKind } from "vscode-languageserver-protocol";
+
+import type { MenuItem } from "../ui/context-menu";
+import { showContextMenu } from "../ui/context-menu";
+
+const GUTTER_ID = "cmw-code-action-gutter";
+// Kinds to group the actions by, in order. Other actions are shown last.
+const KIND_GROUPS = [
+  CodeActionKind.QuickFix,
+  CodeActionKind.Refactor,
+  CodeActionKind.Source,
+];
+const states = new WeakMap<Editor, LspCodeActionState>();
+
+interface LspCodeActionState {
+  line: number;
+}
+
+/**
+ * Code action or command from a Language Server.
+ */
+export interface CodeActionItem {
+  serverId: string;
+  action: CodeAction | Command;
+}
+
+/**
+ * Show a lightbulb in the gutter to indicate code actions are available.
+ * @param editor
+ * @param line - Line to show the lightbulb on.
+ * @param onClick - Called with the page coordinates below the lightbulb when clicked.
+ */
+export const showLightbulb = (
+  editor: Editor,
+  line: number,
+  onClick: (this: void, x: number, y: number) => void
+) => {
+  removeLightbulb(editor);
+
+  const el = document.createElement("div");
+  el.className = "cmw-lightbulb";
+  el.title = "Show Code Actions (Ctrl-.)";
+  el.textContent = "💡";
+  el.addEventListener("mousedown", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = el.getBoundingClientRect();
+    onClick(rect.left + window.pageXOffset, rect.bottom + window.pageYOffset);
+  });
+  editor.setGutterMarker(line, GUTTER_ID, el);
+  states.set(editor, { line });
+};
+
+/**
+ * Remove the lightbulb from the editor.
+ * @param editor
+ */
+export const removeLightbulb = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  editor.clearGutter(GUTTER_ID);
+  states.delete(editor);
+};
+
+/**
+ * Show a menu of code actions grouped by kind.
+ * Disabled actions are shown with the reason, but can't be selected.
+ * @param editor
+ * @param x - Page X coordinate of the menu.
+ * @param y - Page Y coordinate of the menu.
+ * @param items - Code actions to show.
+ * @param onSelect - Called with the selected code action.
+ */
+export const showCodeActionMenu = (
+  editor: Editor,
+  x: number,
+  y: number,
+  items: CodeActionItem[],
+  onSelect: (this: void, item: CodeActionItem) => void
+) => {
+  if (items.length === 0) return;
+
+  const groups: MenuItem[][] = [...KIND_GROUPS, ""].map(() => []);
+  // Show preferred actions first in each group.
+  const sorted = items
+    .slice()
+    .sort((a, b) => +isPreferred(b.action) - +isPreferred(a.action));
+  for (const item of sorted) {
+    const { action } = item;
+    const menuItem: MenuItem =
+      "disabled" in action && action.disabled
+        ? { label: `${action.title} (${action.disabled.reason})` }
+        : { label: action.title, handler: () => onSelect(item) };
+    groups[kindGroupIndex(action)].push(menuItem);
+  }
+  showContextMenu(
+    editor,
+    x,
+    y,
+    groups.filter((group) => group.length > 0)
+  );
+};
+
+const isPreferred = (action: CodeAction | Command): boolean =>
+  "isPreferred" in action && !!action.isPreferred;
+
+const kindGroupIndex = (action: CodeAction | Command): number => {
+  const kind = "kind" in action ? action.kind : undefined;
+  if (!kind) return KIND_GROUPS.length;
+
+  const i = KIND_GROUPS.findIndex(
+    (k) => kind === k || kind.startsWith(k + ".")
+  );
+  return i === -1 ? KIND_GROUPS.length : i;
+};
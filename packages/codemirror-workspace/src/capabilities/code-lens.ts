@@ -0,0 +1,161 @@
+import type { Editor, LineWidget } from "codemirror";
+import type { CodeLens, Command } from "vscode-languageserver-protocol";
+
+const states = new WeakMap<Editor, LspCodeLensState>();
+
+interface LspCodeLensState {
+  lines: Map<number, CodeLensLine>;
+}
+
+interface CodeLensLine {
+  el: HTMLElement;
+  items: CodeLensItem[];
+  widget?: LineWidget;
+}
+
+/**
+ * Code lens from a Language Server.
+ */
+export interface CodeLensItem {
+  serverId: string;
+  lens: CodeLens;
+}
+
+type CodeLensClickHandler = (
+  this: void,
+  item: CodeLensItem,
+  command: Command
+) => void;
+
+/**
+ * Show code lenses as line widgets above their ranges.
+ * Lenses without a command are not shown until updated with `updateCodeLens`.
+ * @param editor
+ * @param items - Code lenses to show.
+ * @param onClick - Called when the command of a lens is clicked.
+ */
+export const showCodeLenses = (
+  editor: Editor,
+  items: CodeLensItem[],
+  onClick: CodeLensClickHandler
+) => {
+  removeCodeLenses(editor);
+  if (items.length === 0) return;
+
+  const state: LspCodeLensState = { lines: new Map() };
+  for (const item of items) {
+    const line = item.lens.range.start.line;
+    const entry = state.lines.get(line);
+    if (entry) {
+      entry.items.push(item);
+    } else {
+      state.lines.set(line, {
+        el: document.createElement("div"),
+        items: [item],
+      });
+    }
+  }
+
+  editor.operation(() => {
+    for (const [line, entry] of state.lines) {
+      const { el, items } = entry;
+      el.className = "cmw-code-lens";
+      // Indent to the start of the line
+      el.style.paddingLeft = `${editor.getLine(line).search(/\S|$/)}ch`;
+      renderCodeLenses(el, items, onClick);
+      entry.widget = editor.addLineWidget(line, el, { above: true });
+    }
+  });
+  states.set(editor, state);
+};
+
+/**
+ * Get code lenses without a command on the lines.
+ * @param editor
+ * @param from - First line, inclusive.
+ * @param to - Last line, exclusive.
+ */
+export const getUnresolvedCodeLenses = (
+  editor: Editor,
+  from: number,
+  to: number
+): CodeLensItem[] => {
+  const state = states.get(editor);
+  if (!state) return [];
+
+  const unresolved: CodeLensItem[] = [];
+  for (const [line, { items }] of state.lines) {
+    if (line < from || line >= to) continue;
+    for (const item of items) {
+      if (!item.lens.command) unresolved.push(item);
+    }
+  }
+  return unresolved;
+};
+
+/**
+ * Update the code lens with the resolved one.
+ * @param editor
+ * @param item - Code lens shown in the editor.
+ * @param lens - Resolved code lens.
+ * @param onClick - Called when the command of a lens is clicked.
+ */
+export const updateCodeLens = (
+  editor: Editor,
+  item: CodeLensItem,
+  lens: CodeLens,
+  onClick: CodeLensClickHandler
+) => {
+  const entry = states.get(editor)?.lines.get(item.lens.range.start.line);
+  if (!entry || !entry.items.includes(item)) return;
+
+  item.lens = lens;
+  renderCodeLenses(entry.el, entry.items, onClick);
+  if (entry.widget) entry.widget.changed();
+};
+
+/**
+ * Remove code lenses from the editor.
+ * @param editor
+ */
+export const removeCodeLenses = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  editor.operation(() => {
+    for (const { widget } of state.lines.values()) {
+      if (widget) widget.clear();
+    }
+  });
+  states.delete(editor);
+};
+
+const renderCodeLenses = (
+  el: HTMLElement,
+  items: CodeLensItem[],
+  onClick: CodeLensClickHandler
+) => {
+  el.textContent = "";
+  // Keep the height while resolving
+  el.appendChild(document.createTextNode("\u200b"));
+  let first = true;
+  for (const item of items) {
+    const command = item.lens.command;
+    if (!command) continue;
+
+    if (!first) el.appendChild(document.createTextNode(" | "));
+    first = false;
+    if (!command.command) {
+      el.appendChild(document.createTextNode(command.title));
+      continue;
+    }
+
+    const link = el.appendChild(document.createElement("a"));
+    link.className = "cmw-code-lens-command";
+    link.textContent = command.title;
+    link.addEventListener("mousedown", (e) => {
+      e.preventDefault();
+      onClick(item, command);
+    });
+  }
+};
@@ -0,0 +1,144 @@
+import type { Editor, TextMarker } from "codemirror";
+import type {
+  Color,
+  ColorInformation,
+  ColorPresentation,
+} from "vscode-languageserver-protocol";
+
+import { showContextMenu } from "../ui/context-menu";
+import { cmPosition } from "../utils/conversions";
+import { cssColor, hexColor, parseHexColor } from "../utils/color";
+
+const states = new WeakMap<Editor, LspColorState>();
+
+interface LspColorState {
+  marks: TextMarker[];
+  // Input element of the open picker.
+  picker?: HTMLInputElement;
+}
+
+/**
+ * Color information from a Language Server.
+ */
+export interface ColorItem {
+  serverId: string;
+  info: ColorInformation;
+}
+
+export interface ColorHandlers {
+  /** Get the ways to present the color picked for the item. */
+  getPresentations: (
+    this: void,
+    item: ColorItem,
+    color: Color
+  ) => Promise<ColorPresentation[]>;
+  /** Replace the item with the chosen presentation. */
+  apply: (this: void, item: ColorItem, presentation: ColorPresentation) => void;
+}
+
+/**
+ * Show color swatches before the colors in the document.
+ * Clicking a swatch opens a color picker. The picked color is presented
+ * as one of the presentations from the server, chosen from a menu if
+ * there are more than one.
+ * @param editor
+ * @param items - Colors to show.
+ * @param handlers - Functions to get and apply presentations.
+ */
+export const showColorSwatches = (
+  editor: Editor,
+  items: ColorItem[],
+  handlers: ColorHandlers
+) => {
+  removeColorSwatches(editor);
+  if (items.length === 0) return;
+
+  const state: LspColorState = { marks: [] };
+  editor.operation(() => {
+    for (const item of items) {
+      const swatch = document.createElement("span");
+      swatch.className = "cmw-color-swatch";
+      swatch.style.backgroundColor = cssColor(item.info.color);
+      swatch.addEventListener("click", (e) => {
+        e.preventDefault();
+        openColorPicker(editor, state, swatch, item, handlers);
+      });
+      state.marks.push(
+        editor.setBookmark(cmPosition(item.info.range.start), {
+          widget: swatch,
+        })
+      );
+    }
+  });
+  states.set(editor, state);
+};
+
+/**
+ * Remove color swatches and the open picker from the editor.
+ * @param editor
+ */
+export const removeColorSwatches = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  editor.operation(() => {
+    for (const mark of state.marks) mark.clear();
+  });
+  removePicker(state);
+  states.delete(editor);
+};
+
+const openColorPicker = (
+  editor: Editor,
+  state: LspColorState,
+  swatch: HTMLElement,
+  item: ColorItem,
+  { getPresentations, apply }: ColorHandlers
+) => {
+  removePicker(state);
+  const { left, bottom } = swatch.getBoundingClientRect();
+  const input = document.createElement("input");
+  input.type = "color";
+  input.className = "cmw-color-picker";
+  input.value = hexColor(item.info.color);
+  input.style.cssText = [
+    "position: fixed;",
+    `left: ${left}px;`,
+    `top: ${bottom}px;`,
+    "width: 0;",
+    "height: 0;",
+    "padding: 0;",
+    "border: 0;",
+    "opacity: 0;",
+  ].join("");
+  input.addEventListener("change", async () => {
+    removePicker(state);
+    // The native picker doesn't support alpha. Keep the current one.
+    const color = parseHexColor(input.value, item.info.color.alpha);
+    if (!color) return;
+
+    const presentations = await getPresentations(item, color);
+    if (states.get(editor) !== state || presentations.length === 0) return;
+
+    if (presentations.length === 1) {
+      apply(item, presentations[0]);
+      return;
+    }
+    showContextMenu(editor, left + window.scrollX, bottom + window.scrollY, [
+      presentations.map((presentation) => ({
+        label: presentation.label,
+        handler: () => apply(item, presentation),
+      })),
+    ]);
+  });
+  document.body.appendChild(input);
+  state.picker = input;
+  input.click();
+};
+
+const removePicker = (state: LspColorState) => {
+  if (!state.picker) return;
+
+  state.picker.remove();
+  state.picker = undefined;
+};
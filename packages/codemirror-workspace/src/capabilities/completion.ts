@@ -14,6 +14,7 @@ import {
   documentationToString,
   completionItemKindToString,
 } from "../utils/conversions";
+import { isCssColor } from "../utils/color";
 import { applyEdits } from "../utils/editor";
 import { insertSnippet } from "./snippet";
 
@@ -54,6 +55,13 @@ export const showTriggeredCompletions = (
   showCompletionItems(editor, items, pos, pos, renderMarkdown);
 };
 
+/**
+ * Check if completion popup is shown.
+ * @param editor
+ */
+export const completionActive = (editor: Editor) =>
+  !!editor.state.completionActive;
+
 /**
  * Hide completion popup.
  * @param editor
@@ -194,14 +202,10 @@ const itemRenderer = (item: CompletionItem) => (el: HTMLElement) => {
   // TODO Show matching characters in different color?
   const hue = Math.floor(((item.kind || 0) / 30) * 180 + 180);
   let color = `hsl(${hue}, 75%, 50%)`;
-  // If completing a color, show the color.
-  // TODO This is just an example and only handles 6 digit hex.
+  // If completing a color, show the color in the documentation.
   if (item.kind === CompletionItemKind.Color) {
-    const doc = documentationToString(item.documentation);
-    if (doc) {
-      const hex = doc.match(/#[\da-f]{6}/i);
-      if (hex) color = hex[0];
-    }
+    const doc = documentationToString(item.documentation).trim();
+    if (doc && isCssColor(doc)) color = doc;
   }
 
   const icon = el.appendChild(document.createElement("div"));
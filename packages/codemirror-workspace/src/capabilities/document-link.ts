@@ -0,0 +1,153 @@
+import type { Editor, TextMarker } from "codemirror";
+import type { DocumentLink } from "vscode-languageserver-protocol";
+import { cmpPos } from "codemirror";
+
+import { cmRange } from "../utils/conversions";
+
+const states = new WeakMap<Editor, LspDocumentLinkState>();
+
+interface LspDocumentLinkState {
+  // Mark on the link under the mouse while the modifier key is pressed.
+  mark?: TextMarker;
+  dispose: () => void;
+}
+
+/**
+ * Document link from a Language Server.
+ */
+export interface DocumentLinkItem {
+  serverId: string;
+  link: DocumentLink;
+}
+
+export interface DocumentLinkHandlers {
+  /** Resolve the target and the tooltip of the link. */
+  resolve: (this: void, item: DocumentLinkItem) => Promise<DocumentLink>;
+  /** Open the target of the link. */
+  open: (this: void, target: string) => void;
+}
+
+const isMac = () => /Mac/.test(navigator.platform);
+// Ctrl on Windows and Linux, Cmd on macOS.
+const modifierPressed = (e: MouseEvent | KeyboardEvent) =>
+  isMac() ? e.metaKey : e.ctrlKey;
+
+/**
+ * Make the links clickable with the modifier key (Ctrl or Cmd).
+ * The link under the mouse is underlined while the modifier key is pressed.
+ * @param editor
+ * @param items - Document links to show.
+ * @param handlers - Functions to resolve and open the links.
+ */
+export const showDocumentLinks = (
+  editor: Editor,
+  items: DocumentLinkItem[],
+  { resolve, open }: DocumentLinkHandlers
+) => {
+  removeDocumentLinks(editor);
+  if (items.length === 0) return;
+
+  // Links are resolved once on demand.
+  const resolved = new WeakMap<DocumentLinkItem, Promise<DocumentLink>>();
+  const resolveLink = (item: DocumentLinkItem): Promise<DocumentLink> => {
+    if (item.link.target) return Promise.resolve(item.link);
+
+    let promise = resolved.get(item);
+    if (!promise) {
+      promise = resolve(item).catch(() => item.link);
+      resolved.set(item, promise);
+    }
+    return promise;
+  };
+
+  const findItem = (e: MouseEvent): DocumentLinkItem | undefined => {
+    const pos = editor.coordsChar({ left: e.pageX, top: e.pageY }, "page");
+    return items.find(({ link }) => {
+      const [start, end] = cmRange(link.range);
+      return cmpPos(start, pos) <= 0 && cmpPos(pos, end) < 0;
+    });
+  };
+
+  let hovered: DocumentLinkItem | undefined;
+  const clearMark = () => {
+    hovered = undefined;
+    if (state.mark) state.mark.clear();
+    state.mark = undefined;
+  };
+  const markItem = (item: DocumentLinkItem) => {
+    if (hovered === item) return;
+
+    clearMark();
+    hovered = item;
+    const mark = (state.mark = editor.markText(...cmRange(item.link.range), {
+      className: "cmw-document-link",
+      title: tooltip(item.link),
+    }));
+    resolveLink(item).then((link) => {
+      // Update the tooltip if still hovered
+      if (state.mark !== mark || !link.tooltip) return;
+
+      mark.clear();
+      state.mark = editor.markText(...cmRange(item.link.range), {
+        className: "cmw-document-link",
+        title: tooltip(link),
+      });
+    });
+  };
+
+  const onMousemove = (e: MouseEvent) => {
+    const item = modifierPressed(e) ? findItem(e) : undefined;
+    if (item) {
+      markItem(item);
+    } else {
+      clearMark();
+    }
+  };
+  const onKeyup = (e: KeyboardEvent) => {
+    if (!modifierPressed(e)) clearMark();
+  };
+  // Handled before CodeMirror to prevent adding a cursor.
+  const onMousedown = (_: Editor, e: MouseEvent) => {
+    if (!modifierPressed(e) || e.button !== 0) return;
+
+    const item = findItem(e);
+    if (!item) return;
+
+    e.preventDefault();
+    clearMark();
+    resolveLink(item).then(({ target }) => {
+      if (target) open(target);
+    });
+  };
+
+  const wrapper = editor.getWrapperElement();
+  wrapper.addEventListener("mousemove", onMousemove);
+  wrapper.addEventListener("mouseleave", clearMark);
+  document.addEventListener("keyup", onKeyup);
+  editor.on("mousedown", onMousedown);
+  const state: LspDocumentLinkState = {
+    dispose: () => {
+      wrapper.removeEventListener("mousemove", onMousemove);
+      wrapper.removeEventListener("mouseleave", clearMark);
+      document.removeEventListener("keyup", onKeyup);
+      editor.off("mousedown", onMousedown);
+      clearMark();
+    },
+  };
+  states.set(editor, state);
+};
+
+/**
+ * Remove document links from the editor.
+ * @param editor
+ */
+export const removeDocumentLinks = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  state.dispose();
+  states.delete(editor);
+};
+
+const tooltip = (link: DocumentLink) =>
+  link.tooltip || `Follow link (${isMac() ? "Cmd" : "Ctrl"} + click)`;
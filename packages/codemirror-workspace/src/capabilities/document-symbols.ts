@@ -5,9 +5,11 @@ import {
   SymbolInformation,
 } from "vscode-languageserver-protocol";
 
+import type { ShowLocation } from "./goto";
 import { gotoLocation } from "./goto";
-import { cmRange, symbolKindToString } from "../utils/conversions";
+import { cmRange } from "../utils/conversions";
 import { attachTypeahead } from "../ui/typeahead-input";
+import { symbolKindIcon } from "../ui/symbol-kind-icon";
 import { escapeRegExp } from "../utils/regexp";
 
 type SymbolMenuItem = {
@@ -19,7 +21,8 @@ type SymbolMenuItem = {
 export const showSymbolSelector = (
   editor: Editor,
   uri: string,
-  symbols: DocumentSymbol[] | SymbolInformation[]
+  symbols: DocumentSymbol[] | SymbolInformation[],
+  showLocation?: ShowLocation
 ) => {
   if (symbols.length === 0) return;
 
@@ -53,11 +56,7 @@ export const showSymbolSelector = (
     },
     render: (item, value) => {
       const div = document.createElement("div");
-      // TODO Specify color in CSS once we have proper icons
-      const icon = div.appendChild(document.createElement("div"));
-      const hue = Math.floor(((item.kind || 0) / 30) * 180 + 180);
-      icon.style.color = `hsl(${hue}, 75%, 50%)`;
-      icon.className = `cmw-icon cmw-icon--${symbolKindToString(item.kind)}`;
+      div.appendChild(symbolKindIcon(item.kind));
       div.insertAdjacentHTML(
         "beforeend",
         item.label.replace(
@@ -69,7 +68,7 @@ export const showSymbolSelector = (
     },
     onSelect: (item) => {
       close();
-      gotoLocation(editor, uri, item.location);
+      gotoLocation(editor, uri, [item.location], showLocation);
     },
     onUpdate: (item) => {
       if (mark) mark.clear();
@@ -112,8 +111,7 @@ const symbolInfoToItem = (
   return {
     label: symbol.name,
     kind: symbol.kind,
-    // TODO Handle locations in other document
-    // symbol.location.uri !== uri
+    // Locations in other document are shown with `showLocation`.
     location: symbol.location,
   };
 };
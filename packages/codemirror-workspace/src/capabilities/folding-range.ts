@@ -0,0 +1,137 @@
+import type { Editor, Position } from "codemirror";
+import type { FoldingRange } from "vscode-languageserver-protocol";
+import { FoldingRangeKind } from "vscode-languageserver-protocol";
+import CodeMirror from "codemirror";
+
+// Types for the parts of the fold addon used here.
+interface FoldableEditor extends Editor {
+  foldCode?(
+    pos: Position,
+    options: { rangeFinder: FoldRangeFinder; scanUp?: boolean },
+    force?: "fold" | "unfold"
+  ): void;
+}
+interface HelperRegistry {
+  registerGlobalHelper(
+    type: string,
+    name: string,
+    predicate: (mode: unknown, cm: Editor) => boolean,
+    value: unknown
+  ): void;
+  commands: { [name: string]: (cm: Editor) => void };
+}
+
+type FoldRangeFinder = (
+  cm: Editor,
+  start: Position
+) => { from: Position; to: Position } | undefined;
+
+const states = new WeakMap<Editor, LspFoldingRangeState>();
+
+interface LspFoldingRangeState {
+  // Map of start line to the outermost folding range starting on that line.
+  ranges: Map<number, FoldingRange>;
+}
+
+/**
+ * Set the folding ranges of the document used by the fold helper.
+ * @param editor
+ * @param ranges - Folding ranges from the server.
+ */
+export const setFoldingRanges = (editor: Editor, ranges: FoldingRange[]) => {
+  const byLine = new Map<number, FoldingRange>();
+  for (const range of ranges) {
+    if (range.endLine <= range.startLine) continue;
+
+    const other = byLine.get(range.startLine);
+    if (!other || other.endLine < range.endLine) {
+      byLine.set(range.startLine, range);
+    }
+  }
+  states.set(editor, { ranges: byLine });
+
+  // Update fold gutter markers if enabled
+  const foldGutter = editor.getOption("foldGutter");
+  if (foldGutter) {
+    editor.setOption("foldGutter", false);
+    editor.setOption("foldGutter", foldGutter);
+  }
+};
+
+/**
+ * Remove the folding ranges from the editor.
+ * @param editor
+ */
+export const removeFoldingRanges = (editor: Editor) => {
+  states.delete(editor);
+};
+
+/**
+ * Fold all ranges of the kind, e.g., `FoldingRangeKind.Imports`.
+ * Requires the fold addon.
+ * @param editor
+ * @param kind - Kind of the folding ranges to fold.
+ */
+export const foldAllOfKind = (
+  editor: FoldableEditor,
+  kind: FoldingRangeKind
+) => {
+  const state = states.get(editor);
+  if (!state || !editor.foldCode) return;
+
+  editor.operation(() => {
+    for (const range of state.ranges.values()) {
+      if (range.kind !== kind) continue;
+
+      editor.foldCode!(
+        { line: range.startLine, ch: 0 },
+        { rangeFinder: lspRangeFinder, scanUp: false },
+        "fold"
+      );
+    }
+  });
+};
+
+/**
+ * Fold helper finding the range starting on the line from the server's folding ranges.
+ * Ranges without the start character fold from the end of the start line,
+ * and ranges without the end character fold to the end of the end line.
+ * @param cm
+ * @param start - Position on the line to fold.
+ */
+const lspRangeFinder: FoldRangeFinder = (cm, start) => {
+  const range = states.get(cm)?.ranges.get(start.line);
+  if (!range || range.endLine >= cm.lineCount()) return;
+
+  const from = {
+    line: range.startLine,
+    ch: range.startCharacter ?? cm.getLine(range.startLine).length,
+  };
+  const to = {
+    line: range.endLine,
+    ch: range.endCharacter ?? cm.getLine(range.endLine).length,
+  };
+  return { from, to };
+};
+
+const cm5 = (CodeMirror as unknown) as HelperRegistry;
+
+// Used by `CodeMirror.fold.auto`, the default range finder of the fold addon,
+// for editors with folding ranges from the server.
+cm5.registerGlobalHelper(
+  "fold",
+  "lsp",
+  (_, cm) => states.has(cm),
+  lspRangeFinder
+);
+
+// Commands to fold all ranges of a kind, e.g., `extraKeys: { "Ctrl-K Ctrl-I": "foldAllImports" }`.
+cm5.commands.foldAllImports = (cm) => {
+  foldAllOfKind(cm, FoldingRangeKind.Imports);
+};
+cm5.commands.foldAllComments = (cm) => {
+  foldAllOfKind(cm, FoldingRangeKind.Comment);
+};
+cm5.commands.foldAllRegions = (cm) => {
+  foldAllOfKind(cm, FoldingRangeKind.Region);
+};
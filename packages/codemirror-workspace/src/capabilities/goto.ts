@@ -1,43 +1,111 @@
 import type { Editor } from "codemirror";
+import type { Range } from "vscode-languageserver-protocol";
 import { Location, LocationLink } from "vscode-languageserver-protocol";
 
 import { cmPosition, cmRange } from "../utils/conversions";
 import { highlightRange } from "../utils/editor";
+import { showLocationPicker } from "./location-picker";
+
+/**
+ * Function to show a location in a different text document.
+ * @param uri - The URI of the target text document.
+ * @param range - The full range of the target.
+ * @param selectionRange - The range to select within `range`, e.g., the name of a function.
+ */
+export type ShowLocation = (
+  this: void,
+  uri: string,
+  range: Range,
+  selectionRange: Range
+) => void;
 
 // Go to the location if it's in the same text document.
 // Otherwise, let the app handle it.
-// TODO Support Peek
+// If there are multiple locations, let the user pick one. `getContent` provides
+// the lines of other documents to preview.
+// Use `showPeek` to show the locations without leaving the editor.
 export const gotoLocation = (
   cm: Editor,
   uri: string,
-  location: Location | LocationLink[] | Location[]
+  locations: (Location | LocationLink)[],
+  showLocation?: ShowLocation,
+  getContent: (uri: string) => Promise<string | null> = async () => null
 ) => {
-  // TODO Let user pick if there are multiple locations
-  const loc = Array.isArray(location) ? location[0] : location;
+  if (locations.length > 1) {
+    showLocationPicker(
+      cm,
+      uri,
+      locations.map(toTargetLocation),
+      getContent,
+      ({ uri: target, range, selectionRange }) => {
+        if (target === uri) {
+          revealRange(cm, range, selectionRange);
+        } else if (showLocation) {
+          showLocation(target, range, selectionRange);
+        }
+      }
+    );
+    return;
+  }
+
+  const loc = locations[0];
   if (Location.is(loc)) {
     if (loc.uri === uri) {
-      const newPos = cmPosition(loc.range.start);
-      highlightRange(cm, ...cmRange(loc.range), 1500);
-      // @ts-ignore @types/codemirror doesn't allow `setCursor(pos, options)`
-      cm.setCursor(newPos, { scroll: true });
-      // TODO Figure out why the editor loses focus when triggered from context menu
-      cm.focus();
-    } else {
-      // this.showTextDocument(loc.uri, loc.range);
-      // console.log(loc);
+      revealRange(cm, loc.range);
+    } else if (showLocation) {
+      showLocation(loc.uri, loc.range, loc.range);
     }
   } else if (LocationLink.is(loc)) {
     // Returned with client capability: textDocument.*.linkSupport
     if (loc.targetUri === uri) {
-      const newPos = cmPosition(loc.targetSelectionRange.start);
-      highlightRange(cm, ...cmRange(loc.targetRange), 1500);
-      // @ts-ignore @types/codemirror doesn't allow `setCursor(pos, options)`
-      cm.setCursor(newPos, { scroll: true });
-      // TODO Figure out why the editor loses focus when triggered from context menu
-      cm.focus();
-    } else {
-      // this.showTextDocument(loc.targetUri, loc.targetSelectionRange);
-      // console.log(loc);
+      revealRange(cm, loc.targetRange, loc.targetSelectionRange);
+    } else if (showLocation) {
+      showLocation(loc.targetUri, loc.targetRange, loc.targetSelectionRange);
     }
   }
 };
+
+/**
+ * Highlight the range and move the cursor to the start of the selection range.
+ * @param cm - Editor
+ * @param range - The range to highlight.
+ * @param selectionRange - The range to move the cursor to. Defaults to `range`.
+ */
+export const revealRange = (
+  cm: Editor,
+  range: Range,
+  selectionRange: Range = range
+) => {
+  const newPos = cmPosition(selectionRange.start);
+  highlightRange(cm, ...cmRange(range), 1500);
+  // @ts-ignore @types/codemirror doesn't allow `setCursor(pos, options)`
+  cm.setCursor(newPos, { scroll: true });
+  // TODO Figure out why the editor loses focus when triggered from context menu
+  cm.focus();
+};
+
+/**
+ * Location with the range to select within, e.g., the name of a function.
+ */
+export interface TargetLocation {
+  uri: string;
+  /** The full range of the target. */
+  range: Range;
+  /** The range to select within `range`. */
+  selectionRange: Range;
+}
+
+/**
+ * Convert the location from the server to the target location.
+ * @param loc
+ */
+export const toTargetLocation = (
+  loc: Location | LocationLink
+): TargetLocation =>
+  Location.is(loc)
+    ? { uri: loc.uri, range: loc.range, selectionRange: loc.range }
+    : {
+        uri: loc.targetUri,
+        range: loc.targetRange,
+        selectionRange: loc.targetSelectionRange,
+      };
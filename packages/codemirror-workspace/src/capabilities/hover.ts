@@ -14,26 +14,32 @@ interface LspHoverState {
 
 /**
  * Show hover information.
+ * Contents of multiple hovers are shown together, separated by a rule.
  * @param editor
  * @param pos Position of the event
- * @param hover
+ * @param hovers - Hover information from each server.
  */
 export const showHoverInfo = (
   editor: Editor,
   pos: Position,
-  hover: Hover,
+  hovers: Hover[],
   renderMarkdown: (x: string) => string = (x) => x
 ) => {
   removeHoverInfo(editor);
-  if (Array.isArray(hover.contents) && hover.contents.length === 0) return;
-  const info = hoverContentsToString(hover.contents, renderMarkdown);
+  const info = hovers
+    .filter((h) => !Array.isArray(h.contents) || h.contents.length > 0)
+    .map((h) => hoverContentsToString(h.contents, renderMarkdown))
+    .filter((s) => !!s)
+    .join("<hr>");
   if (!info) return;
 
   const state = states.get(editor) || {};
   let start = pos;
-  if (hover.range) {
+  // Use the first range given.
+  const range = hovers.find((h) => !!h.range)?.range;
+  if (range) {
     let end = pos;
-    [start, end] = cmRange(hover.range);
+    [start, end] = cmRange(range);
     state.marker = editor.markText(start, end, {
       css: "text-decoration: underline",
     });
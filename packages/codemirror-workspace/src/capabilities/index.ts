@@ -11,7 +11,58 @@ export {
   showInvokedCompletions,
   showTriggeredCompletions,
   hideCompletions,
+  completionActive,
 } from "./completion";
+export { snippetActive } from "./snippet";
 export { showSignatureHelp, removeSignatureHelp } from "./signature-help";
-export { gotoLocation } from "./goto";
+export { gotoLocation, revealRange, toTargetLocation } from "./goto";
+export type { ShowLocation, TargetLocation } from "./goto";
 export { showSymbolSelector } from "./document-symbols";
+export { showRenameInput, removeRenameInput } from "./rename";
+export {
+  showLightbulb,
+  removeLightbulb,
+  showCodeActionMenu,
+} from "./code-action";
+export type { CodeActionItem } from "./code-action";
+export {
+  showCodeLenses,
+  getUnresolvedCodeLenses,
+  updateCodeLens,
+  removeCodeLenses,
+} from "./code-lens";
+export type { CodeLensItem } from "./code-lens";
+export {
+  setFoldingRanges,
+  removeFoldingRanges,
+  foldAllOfKind,
+} from "./folding-range";
+export {
+  expandSelection,
+  shrinkSelection,
+  removeSelectionRanges,
+} from "./selection-range";
+export { showDocumentLinks, removeDocumentLinks } from "./document-link";
+export type { DocumentLinkItem } from "./document-link";
+export { showColorSwatches, removeColorSwatches } from "./color";
+export type { ColorItem } from "./color";
+export { showWorkspaceSymbolPalette } from "./workspace-symbols";
+export type { WorkspaceSymbolItem } from "./workspace-symbols";
+export { showCallHierarchy, removeCallHierarchy } from "./call-hierarchy";
+export type { CallHierarchyNode, CallDirection } from "./call-hierarchy";
+export { showTypeHierarchy, removeTypeHierarchy } from "./type-hierarchy";
+export {
+  decodeSemanticTokens,
+  applySemanticTokensEdits,
+  setSemanticTokens,
+  removeSemanticTokens,
+} from "./semantic-tokens";
+export { showInlayHints, removeInlayHints } from "./inlay-hint";
+export type { InlayHintItem } from "./inlay-hint";
+export {
+  showLinkedEditingRanges,
+  inLinkedEditingRange,
+  removeLinkedEditingRanges,
+} from "./linked-editing";
+export { showPeek, removePeek } from "./peek";
+export type { ModeOption } from "./peek";
@@ -0,0 +1,130 @@
+import type { Editor, TextMarker } from "codemirror";
+import type { MarkupContent } from "vscode-languageserver-protocol";
+import type { InlayHint, InlayHintLabelPart } from "@qualified/lsp-connection";
+import { InlayHintKind } from "@qualified/lsp-connection";
+
+import { cmPosition } from "../utils/conversions";
+
+const states = new WeakMap<Editor, LspInlayHintState>();
+
+interface LspInlayHintState {
+  marks: TextMarker[];
+}
+
+/**
+ * Inlay hint from a Language Server.
+ */
+export interface InlayHintItem {
+  serverId: string;
+  hint: InlayHint;
+}
+
+export interface InlayHintHandlers {
+  /** Resolve the tooltip and the label parts of the hint. */
+  resolve: (this: void, item: InlayHintItem) => Promise<InlayHint>;
+  /** Called when a label part with a location or a command is clicked. */
+  onClick: (this: void, item: InlayHintItem, part: InlayHintLabelPart) => void;
+}
+
+/**
+ * Show inlay hints as widgets at their positions.
+ * Hints are resolved when hovered for the first time.
+ * @param editor
+ * @param items - Hints to show.
+ * @param handlers - Functions to resolve the hints and handle the clicks.
+ */
+export const showInlayHints = (
+  editor: Editor,
+  items: InlayHintItem[],
+  { resolve, onClick }: InlayHintHandlers
+) => {
+  removeInlayHints(editor);
+  if (items.length === 0) return;
+
+  const state: LspInlayHintState = { marks: [] };
+  editor.operation(() => {
+    for (const item of items) {
+      const { hint } = item;
+      const el = document.createElement("span");
+      el.className = [
+        "cmw-inlay-hint",
+        hint.kind === InlayHintKind.Type ? "cmw-inlay-hint--type" : "",
+        hint.kind === InlayHintKind.Parameter
+          ? "cmw-inlay-hint--parameter"
+          : "",
+        hint.paddingLeft ? "cmw-inlay-hint--padding-left" : "",
+        hint.paddingRight ? "cmw-inlay-hint--padding-right" : "",
+      ]
+        .filter((c) => !!c)
+        .join(" ");
+      renderLabel(el, item, hint, onClick);
+
+      let resolving: Promise<void> | undefined;
+      el.addEventListener("mouseenter", () => {
+        if (resolving) return;
+
+        resolving = resolve(item)
+          .catch(() => hint)
+          .then((resolved) => {
+            item.hint = resolved;
+            renderLabel(el, item, resolved, onClick);
+          });
+      });
+
+      state.marks.push(
+        editor.setBookmark(cmPosition(hint.position), {
+          widget: el,
+          // Text typed at the end of the hinted variable stays before the type hint.
+          insertLeft: hint.kind === InlayHintKind.Type,
+        })
+      );
+    }
+  });
+  states.set(editor, state);
+};
+
+/**
+ * Remove inlay hints from the editor.
+ * @param editor
+ */
+export const removeInlayHints = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  editor.operation(() => {
+    for (const mark of state.marks) mark.clear();
+  });
+  states.delete(editor);
+};
+
+const renderLabel = (
+  el: HTMLElement,
+  item: InlayHintItem,
+  hint: InlayHint,
+  onClick: InlayHintHandlers["onClick"]
+) => {
+  el.textContent = "";
+  const tooltip = tooltipToString(hint.tooltip);
+  if (tooltip) el.title = tooltip;
+  if (typeof hint.label === "string") {
+    el.textContent = hint.label;
+    return;
+  }
+
+  for (const part of hint.label) {
+    const span = el.appendChild(document.createElement("span"));
+    span.textContent = part.value;
+    const partTooltip = tooltipToString(part.tooltip);
+    if (partTooltip) span.title = partTooltip;
+    if (part.location || part.command) {
+      span.className = "cmw-inlay-hint-part--clickable";
+      span.addEventListener("click", (e) => {
+        e.preventDefault();
+        onClick(item, part);
+      });
+    }
+  }
+};
+
+const tooltipToString = (tooltip?: string | MarkupContent) =>
+  typeof tooltip === "string" ? tooltip : tooltip?.value;
@@ -0,0 +1,41 @@
+/**
+ * @jest-environment jsdom
+ */
+import CodeMirror, { Pos } from "codemirror";
+import {
+  showLinkedEditingRanges,
+  inLinkedEditingRange,
+} from "./linked-editing";
+
+describe("showLinkedEditingRanges", () => {
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+  const createEditor = (value: string) => {
+    const div = document.createElement("div");
+    document.body.appendChild(div);
+    return CodeMirror(div, { value });
+  };
+  // Ranges of the tag names in `<div></div>`
+  const tags = [range(0, 1, 4), range(0, 7, 10)];
+
+  test("mirrors the edits to the other ranges", () => {
+    const cm = createEditor("<div></div>");
+    showLinkedEditingRanges(cm, tags, "[a-z]+");
+    cm.replaceRange("span", Pos(0, 1), Pos(0, 4), "+input");
+    expect(cm.getValue()).toBe("<span></span>");
+    cm.replaceRange("", Pos(0, 8), Pos(0, 12), "+delete");
+    expect(cm.getValue()).toBe("<></>");
+    cm.replaceRange("p", Pos(0, 4), Pos(0, 4), "+input");
+    expect(cm.getValue()).toBe("<p></p>");
+  });
+
+  test("unlinks when the text doesn't match the word pattern", () => {
+    const cm = createEditor("<div></div>");
+    showLinkedEditingRanges(cm, tags, "[a-z]+");
+    cm.replaceRange(" ", Pos(0, 4), Pos(0, 4), "+input");
+    expect(cm.getValue()).toBe("<div ></div>");
+    expect(inLinkedEditingRange(cm, Pos(0, 2))).toBe(false);
+  });
+});
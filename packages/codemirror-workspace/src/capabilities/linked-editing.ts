@@ -0,0 +1,128 @@
+import type { Editor, EditorChange, Position, TextMarker } from "codemirror";
+import type { Range } from "vscode-languageserver-protocol";
+import { cmpPos } from "codemirror";
+
+import { cmRange } from "../utils/conversions";
+
+const states = new WeakMap<Editor, LspLinkedEditingState>();
+
+interface LspLinkedEditingState {
+  marks: TextMarker[];
+  dispose: () => void;
+}
+
+/**
+ * Link the ranges so that the edits in one of them are mirrored to the others,
+ * e.g., the opening and the closing tags.
+ * The link is removed when edited outside of the ranges, or when the text
+ * no longer matches `wordPattern`.
+ * @param editor
+ * @param ranges - Ranges to link.
+ * @param wordPattern - Pattern of the valid text in the ranges.
+ */
+export const showLinkedEditingRanges = (
+  editor: Editor,
+  ranges: Range[],
+  wordPattern?: string
+) => {
+  removeLinkedEditingRanges(editor);
+  if (ranges.length < 2) return;
+
+  const pattern = toPattern(wordPattern);
+  const marks = ranges.map((range) =>
+    editor.markText(...cmRange(range), {
+      className: "cmw-linked-editing",
+      clearWhenEmpty: false,
+      // New text will be part of the marker
+      inclusiveLeft: true,
+      inclusiveRight: true,
+    })
+  );
+
+  const onChanges = (cm: Editor, changes: EditorChange[]) => {
+    const edited = new Set<TextMarker>();
+    for (const change of changes) {
+      if (change.origin === "linkedEditing") continue;
+
+      // Undoing the mirrored edits separately would be confusing.
+      const undoing = change.origin === "undo" || change.origin === "redo";
+      const mark = !undoing && markAt(marks, change.from);
+      if (!mark) {
+        removeLinkedEditingRanges(cm);
+        return;
+      }
+      edited.add(mark);
+    }
+    // Edits to different ranges at once, e.g., with multiple cursors.
+    if (edited.size !== 1) return;
+
+    const [source] = edited;
+    const { from, to } = source.find();
+    const text = cm.getRange(from, to);
+    if (pattern && text !== "" && !pattern.test(text)) {
+      removeLinkedEditingRanges(cm);
+      return;
+    }
+
+    cm.operation(() => {
+      for (const mark of marks) {
+        if (mark === source) continue;
+
+        const range = mark.find();
+        if (cm.getRange(range.from, range.to) !== text) {
+          cm.replaceRange(text, range.from, range.to, "linkedEditing");
+        }
+      }
+    });
+  };
+  editor.on("changes", onChanges);
+
+  states.set(editor, {
+    marks,
+    dispose: () => {
+      editor.off("changes", onChanges);
+      for (const mark of marks) mark.clear();
+    },
+  });
+};
+
+/**
+ * Check if the position is in one of the linked ranges.
+ * @param editor
+ * @param pos
+ */
+export const inLinkedEditingRange = (editor: Editor, pos: Position) => {
+  const state = states.get(editor);
+  return !!state && !!markAt(state.marks, pos);
+};
+
+/**
+ * Remove the linked ranges from the editor.
+ * @param editor
+ */
+export const removeLinkedEditingRanges = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  state.dispose();
+  states.delete(editor);
+};
+
+const markAt = (marks: TextMarker[], pos: Position) =>
+  marks.find((mark) => {
+    const range = mark.find();
+    return (
+      !!range && cmpPos(range.from, pos) <= 0 && cmpPos(pos, range.to) <= 0
+    );
+  });
+
+// The whole text must match the word pattern.
+const toPattern = (wordPattern?: string) => {
+  if (!wordPattern) return;
+
+  try {
+    return new RegExp(`^(?:${wordPattern})$`);
+  } catch (_) {
+    return;
+  }
+};
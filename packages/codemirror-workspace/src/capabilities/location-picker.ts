@@ -0,0 +1,139 @@
+import type { Editor, TextMarker } from "codemirror";
+
+import type { TargetLocation } from "./goto";
+import { cmPosition, cmRange, uriBasename } from "../utils/conversions";
+import { highlightRange } from "../utils/editor";
+import { attachTypeahead } from "../ui/typeahead-input";
+import { escapeRegExp } from "../utils/regexp";
+import { escapeHtml } from "../utils/html";
+
+type LocationMenuItem = TargetLocation & {
+  label: string;
+  // Text of the line at the location.
+  preview: string;
+  // The first item of the URI in the list.
+  groupStart: boolean;
+};
+
+/**
+ * Show a list of the locations to pick one to go to.
+ * Locations are grouped by URI, starting with the current document.
+ * Locations in the current document are highlighted while selected in the list.
+ * @param editor
+ * @param uri - URI of the current document.
+ * @param locations - Locations to pick from.
+ * @param getContent - Function to get the content of other documents for the previews.
+ * @param onPick - Called with the picked location.
+ */
+export const showLocationPicker = (
+  editor: Editor,
+  uri: string,
+  locations: TargetLocation[],
+  getContent: (this: void, uri: string) => Promise<string | null>,
+  onPick: (this: void, location: TargetLocation) => void
+) => {
+  if (locations.length === 0) return;
+
+  // Sort by URI, keeping the order within each URI.
+  const uris = [uri, ...locations.map((l) => l.uri)].filter(
+    (u, i, us) => us.indexOf(u) === i
+  );
+  const sorted = uris.flatMap((u) => locations.filter((l) => l.uri === u));
+  let items: LocationMenuItem[] | undefined;
+  const getItems = async () => {
+    if (items) return items;
+
+    const lines = new Map<string, string[]>();
+    await Promise.all(
+      uris.map(async (u) => {
+        const content = u === uri ? editor.getValue() : await getContent(u);
+        lines.set(u, content ? content.split(/\r?\n/) : []);
+      })
+    );
+    items = sorted.map((location) => {
+      const line = location.range.start.line;
+      return {
+        ...location,
+        label: `${uriBasename(location.uri)}:${line + 1}`,
+        preview: (lines.get(location.uri)?.[line] || "").trim(),
+        groupStart: false,
+      };
+    });
+    return items;
+  };
+
+  let mark: TextMarker | null = null;
+  const wrapper = editor.getWrapperElement();
+  const dialog = wrapper.appendChild(document.createElement("div"));
+  const input = dialog.appendChild(document.createElement("input"));
+  dialog.className = "cmw-location-picker";
+  input.className = "cmw-location-picker-input";
+  input.placeholder = `${locations.length} locations`;
+
+  const disposeTypeahead = attachTypeahead<LocationMenuItem>(input, {
+    className: "cmw-location-picker-list",
+    getSuggestions: async (text) => {
+      const lower = text.toLowerCase();
+      const matched = (await getItems()).filter(
+        (item) =>
+          item.label.toLowerCase().includes(lower) ||
+          item.preview.toLowerCase().includes(lower)
+      );
+      return matched.map((item, i) => ({
+        ...item,
+        groupStart: i === 0 || matched[i - 1].uri !== item.uri,
+      }));
+    },
+    render: (item, value) => {
+      const div = document.createElement("div");
+      if (item.groupStart) {
+        const header = div.appendChild(document.createElement("div"));
+        header.className = "cmw-location-picker-group";
+        header.textContent = item.uri;
+      }
+      const label = div.appendChild(document.createElement("span"));
+      label.className = "cmw-location-picker-label";
+      label.textContent = item.label;
+      const preview = div.appendChild(document.createElement("span"));
+      preview.className = "cmw-location-picker-preview";
+      preview.innerHTML = value
+        ? escapeHtml(item.preview).replace(
+            new RegExp("(" + escapeRegExp(escapeHtml(value)) + ")", "i"),
+            `<span class="matched">$1</span>`
+          )
+        : escapeHtml(item.preview);
+      return div;
+    },
+    onSelect: (item) => {
+      close();
+      onPick(item);
+    },
+    onUpdate: (item) => {
+      if (mark) mark.clear();
+      mark = null;
+      if (item.uri !== uri) return;
+
+      mark = highlightRange(editor, ...cmRange(item.range));
+      editor.scrollIntoView(cmPosition(item.range.start), 50);
+    },
+    onCancel: () => {
+      input.blur();
+      close();
+    },
+  });
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+
+    closed = true;
+    if (mark) mark.clear();
+    disposeTypeahead();
+    dialog.remove();
+    editor.focus();
+  };
+  dialog.addEventListener("focusout", (e) => {
+    if (e.relatedTarget !== null) close();
+  });
+  input.focus();
+};
@@ -0,0 +1,147 @@
+import type { Editor, LineWidget, TextMarker } from "codemirror";
+import CodeMirror from "codemirror";
+
+import type { TargetLocation } from "./goto";
+import { cmPosition, cmRange, uriBasename } from "../utils/conversions";
+
+const states = new WeakMap<Editor, LspPeekState>();
+
+interface LspPeekState {
+  widget: LineWidget;
+}
+
+/**
+ * CodeMirror `mode` option: the name or MIME type, or the spec with the options.
+ * `null` for plain text.
+ */
+export type ModeOption =
+  | string
+  | { name: string; [option: string]: unknown }
+  | null;
+
+export interface PeekHandlers {
+  /** Get the content of the document. Resolves with `null` if unavailable. */
+  getContent: (this: void, uri: string) => Promise<string | null>;
+  /** Get the CodeMirror mode for the document. */
+  getMode: (this: void, uri: string) => ModeOption;
+  /** Jump to the location. */
+  open: (this: void, location: TargetLocation) => void;
+}
+
+/**
+ * Show the locations in a widget below the line, e.g., to peek at the definition.
+ * The widget has a read-only editor showing the selected location, and a list
+ * of the locations on the side if there are more than one.
+ * Esc closes the widget, and Enter jumps to the selected location.
+ * @param editor
+ * @param line - Line to show the widget below.
+ * @param locations - Locations to show.
+ * @param handlers - Functions to get the contents and jump.
+ */
+export const showPeek = (
+  editor: Editor,
+  line: number,
+  locations: TargetLocation[],
+  { getContent, getMode, open }: PeekHandlers
+) => {
+  removePeek(editor);
+  if (locations.length === 0) return;
+
+  const el = document.createElement("div");
+  el.className = "cmw-peek";
+  const preview = el.appendChild(document.createElement("div"));
+  preview.className = "cmw-peek-editor";
+  const list = document.createElement("div");
+  list.className = "cmw-peek-list";
+  if (locations.length > 1) el.appendChild(list);
+
+  let selected = 0;
+  const close = () => {
+    removePeek(editor);
+    editor.focus();
+  };
+  const jump = () => {
+    close();
+    open(locations[selected]);
+  };
+  const move = (delta: number) => {
+    const n = locations.length;
+    select((((selected + delta) % n) + n) % n);
+  };
+  const keyMap = {
+    Esc: close,
+    Enter: jump,
+    Up: () => move(-1),
+    Down: () => move(1),
+  };
+  const mini = CodeMirror(preview, {
+    readOnly: true,
+    lineNumbers: true,
+    extraKeys: locations.length > 1 ? keyMap : { Esc: close, Enter: jump },
+  });
+
+  const items = locations.map((location, i) => {
+    const item = list.appendChild(document.createElement("div"));
+    item.className = "cmw-peek-list-item";
+    item.textContent = `${uriBasename(location.uri)}:${
+      location.range.start.line + 1
+    }`;
+    item.title = location.uri;
+    item.addEventListener("click", () => {
+      select(i);
+      // Keep the keys working
+      mini.focus();
+    });
+    item.addEventListener("dblclick", jump);
+    return item;
+  });
+
+  let mark: TextMarker | undefined;
+  let shownUri: string | undefined;
+  let loading = 0;
+  const select = async (i: number) => {
+    selected = i;
+    items.forEach((item, j) => item.classList.toggle("selected", j === i));
+    const location = locations[i];
+    const count = ++loading;
+    if (location.uri !== shownUri) {
+      const content = await getContent(location.uri);
+      if (count !== loading) return;
+
+      shownUri = location.uri;
+      mini.setOption("mode", getMode(location.uri));
+      mini.setValue(content ?? "");
+    }
+
+    if (mark) mark.clear();
+    mark = mini.markText(...cmRange(location.range), {
+      className: "cmw-highlight",
+    });
+    mini.setCursor(cmPosition(location.selectionRange.start));
+    mini.scrollIntoView(
+      { line: location.range.start.line, ch: 0 },
+      mini.defaultTextHeight() * 3
+    );
+  };
+
+  const widget = editor.addLineWidget(line, el, {
+    coverGutter: false,
+    noHScroll: true,
+  });
+  states.set(editor, { widget });
+  // Refresh after attached to measure the size.
+  mini.refresh();
+  select(0).then(() => mini.focus());
+};
+
+/**
+ * Remove the peek widget from the editor.
+ * @param editor
+ */
+export const removePeek = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  state.widget.clear();
+  states.delete(editor);
+};
@@ -0,0 +1,77 @@
+import type { Editor, TextMarker } from "codemirror";
+import type { Range } from "vscode-languageserver-protocol";
+
+import { cmRange } from "../utils/conversions";
+
+const states = new WeakMap<Editor, RenameState>();
+
+interface RenameState {
+  mark: TextMarker;
+}
+
+/**
+ * Show an input over the range to enter the new name.
+ * @param editor
+ * @param range - Range of the symbol to rename.
+ * @param placeholder - Initial value of the input.
+ * @param onRename - Called with the new name when Enter is pressed.
+ */
+export const showRenameInput = (
+  editor: Editor,
+  range: Range,
+  placeholder: string,
+  onRename: (this: void, newName: string) => void
+) => {
+  removeRenameInput(editor);
+
+  const input = document.createElement("input");
+  input.className = "cmw-rename-input";
+  input.value = placeholder;
+  input.size = Math.max(placeholder.length + 2, 10);
+  const [start, end] = cmRange(range);
+  const mark = editor.markText(start, end, {
+    replacedWith: input,
+    clearWhenEmpty: false,
+  });
+  states.set(editor, { mark });
+
+  input.addEventListener("keydown", (e) => {
+    switch (e.key) {
+      case "Enter": {
+        e.preventDefault();
+        const newName = input.value;
+        removeRenameInput(editor);
+        editor.focus();
+        if (newName !== "" && newName !== placeholder) onRename(newName);
+        return;
+      }
+      case "Esc":
+      case "Escape":
+        e.preventDefault();
+        removeRenameInput(editor);
+        editor.focus();
+        return;
+    }
+  });
+  input.addEventListener("input", () => {
+    input.size = Math.max(input.value.length + 2, 10);
+    mark.changed();
+  });
+  input.addEventListener("blur", () => {
+    if (states.get(editor)?.mark === mark) removeRenameInput(editor);
+  });
+  input.focus();
+  input.select();
+};
+
+/**
+ * Remove the rename input from the editor.
+ * @param editor
+ */
+export const removeRenameInput = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  states.delete(editor);
+  state.mark.clear();
+};
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment jsdom
+ */
+import CodeMirror, { Pos } from "codemirror";
+import type { SelectionRange } from "vscode-languageserver-protocol";
+import { expandSelection, shrinkSelection } from "./selection-range";
+
+describe("expandSelection", () => {
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+  // Ranges for `foo(bar.baz)`: `baz`, `bar.baz`, `(bar.baz)`, `foo(bar.baz)`
+  const chain = (): SelectionRange => ({
+    range: range(0, 8, 11),
+    parent: {
+      range: range(0, 4, 11),
+      parent: {
+        range: range(0, 3, 12),
+        parent: { range: range(0, 0, 12) },
+      },
+    },
+  });
+  const createEditor = (value: string) => {
+    const div = document.createElement("div");
+    document.body.appendChild(div);
+    return CodeMirror(div, { value });
+  };
+  const selected = (cm: CodeMirror.Editor) => cm.getSelections();
+
+  test("expands and shrinks back through the history", async () => {
+    const cm = createEditor("foo(bar.baz)");
+    cm.setCursor(Pos(0, 9));
+    const getRanges = jest.fn(async () => [chain()]);
+
+    await expandSelection(cm, getRanges);
+    expect(selected(cm)).toEqual(["baz"]);
+    await expandSelection(cm, getRanges);
+    expect(selected(cm)).toEqual(["bar.baz"]);
+    await expandSelection(cm, getRanges);
+    expect(selected(cm)).toEqual(["(bar.baz)"]);
+    // Ranges are requested once while expanding.
+    expect(getRanges).toHaveBeenCalledTimes(1);
+
+    shrinkSelection(cm);
+    expect(selected(cm)).toEqual(["bar.baz"]);
+    shrinkSelection(cm);
+    expect(selected(cm)).toEqual(["baz"]);
+    shrinkSelection(cm);
+    expect(cm.getCursor()).toEqual(Pos(0, 9));
+  });
+
+  test("expands each cursor", async () => {
+    const cm = createEditor("foo(bar.baz)\nfoo(bar.baz)");
+    cm.setSelections([
+      { anchor: Pos(0, 9), head: Pos(0, 9) },
+      { anchor: Pos(1, 5), head: Pos(1, 5) },
+    ]);
+    const line1 = (r: SelectionRange): SelectionRange => ({
+      range: {
+        start: { ...r.range.start, line: 1 },
+        end: { ...r.range.end, line: 1 },
+      },
+      parent: r.parent && line1(r.parent),
+    });
+
+    await expandSelection(cm, async () => [chain(), line1(chain().parent!)]);
+    expect(selected(cm)).toEqual(["baz", "bar.baz"]);
+    await expandSelection(cm, async () => null);
+    expect(selected(cm)).toEqual(["bar.baz", "(bar.baz)"]);
+  });
+
+  test("starts over when the selection changed", async () => {
+    const cm = createEditor("foo(bar.baz)");
+    cm.setCursor(Pos(0, 9));
+    const getRanges = jest.fn(async () => [chain()]);
+
+    await expandSelection(cm, getRanges);
+    cm.setCursor(Pos(0, 9));
+    shrinkSelection(cm);
+    expect(cm.getCursor()).toEqual(Pos(0, 9));
+    await expandSelection(cm, getRanges);
+    expect(selected(cm)).toEqual(["baz"]);
+    expect(getRanges).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,139 @@
+import type { Editor, Position } from "codemirror";
+import type { Range, SelectionRange } from "vscode-languageserver-protocol";
+import { cmpPos } from "codemirror";
+
+import { cmRange } from "../utils/conversions";
+
+const states = new WeakMap<Editor, LspSelectionRangeState>();
+
+interface LspSelectionRangeState {
+  // Selections before each expansion, to restore when shrinking.
+  history: Selection[][];
+  // Selections set by the last expansion. The state is reset if changed.
+  current: Selection[];
+  // Ranges containing each of the selections, innermost first.
+  chains: Range[][];
+  // Change generation of the document when the ranges were requested.
+  generation: number;
+}
+
+interface Selection {
+  anchor: Position;
+  head: Position;
+}
+
+/**
+ * Expand each selection to the next range containing it.
+ * The ranges are requested for the cursors when the selections changed since
+ * the last expansion.
+ * @param editor
+ * @param getSelectionRanges - Function to request the selection ranges for the positions.
+ */
+export const expandSelection = async (
+  editor: Editor,
+  getSelectionRanges: (
+    this: void,
+    positions: Position[]
+  ) => Promise<SelectionRange[] | null>
+) => {
+  const selections = editor.listSelections();
+  let state = states.get(editor);
+  if (
+    !state ||
+    !editor.isClean(state.generation) ||
+    !sameSelections(selections, state.current)
+  ) {
+    const generation = editor.changeGeneration();
+    const ranges = await getSelectionRanges(selections.map((s) => s.head));
+    if (!ranges || ranges.length !== selections.length) return;
+    // Ignore if changed while requesting
+    if (
+      !editor.isClean(generation) ||
+      !sameSelections(editor.listSelections(), selections)
+    ) {
+      return;
+    }
+
+    state = {
+      history: [],
+      current: selections,
+      chains: ranges.map(flattenSelectionRange),
+      generation,
+    };
+    states.set(editor, state);
+  }
+
+  const expanded = selections.map((selection, i) => {
+    const [from, to] = orderedPositions(selection);
+    for (const range of state!.chains[i]) {
+      const [start, end] = cmRange(range);
+      const contains = cmpPos(start, from) <= 0 && cmpPos(to, end) <= 0;
+      const larger = cmpPos(start, from) !== 0 || cmpPos(to, end) !== 0;
+      if (contains && larger) return { anchor: start, head: end };
+    }
+    return selection;
+  });
+  if (sameSelections(expanded, selections)) return;
+
+  state.history.push(selections);
+  state.current = expanded;
+  editor.setSelections(expanded, primaryIndex(editor, selections), {
+    scroll: true,
+  });
+};
+
+/**
+ * Restore the selections before the last expansion.
+ * Does nothing if the selections changed since the last expansion.
+ * @param editor
+ */
+export const shrinkSelection = (editor: Editor) => {
+  const state = states.get(editor);
+  if (
+    !state ||
+    !editor.isClean(state.generation) ||
+    !sameSelections(editor.listSelections(), state.current)
+  ) {
+    return;
+  }
+
+  const previous = state.history.pop();
+  if (!previous) return;
+
+  const primary = primaryIndex(editor, state.current);
+  state.current = previous;
+  editor.setSelections(previous, primary, { scroll: true });
+};
+
+/**
+ * Forget the selection history of the editor.
+ * @param editor
+ */
+export const removeSelectionRanges = (editor: Editor) => {
+  states.delete(editor);
+};
+
+const flattenSelectionRange = (range: SelectionRange | undefined): Range[] => {
+  const ranges: Range[] = [];
+  for (let r = range; r; r = r.parent) ranges.push(r.range);
+  return ranges;
+};
+
+// Index of the primary selection to keep it primary after replacing the selections.
+const primaryIndex = (editor: Editor, selections: Selection[]) => {
+  const head = editor.getCursor("head");
+  return Math.max(
+    0,
+    selections.findIndex((s) => cmpPos(s.head, head) === 0)
+  );
+};
+
+const orderedPositions = ({ anchor, head }: Selection): [Position, Position] =>
+  cmpPos(anchor, head) <= 0 ? [anchor, head] : [head, anchor];
+
+const sameSelections = (a: Selection[], b: Selection[]) =>
+  a.length === b.length &&
+  a.every(
+    (s, i) =>
+      cmpPos(s.anchor, b[i].anchor) === 0 && cmpPos(s.head, b[i].head) === 0
+  );
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import {
+  applySemanticTokensEdits,
+  decodeSemanticTokens,
+} from "./semantic-tokens";
+
+describe("decodeSemanticTokens", () => {
+  const legend = {
+    tokenTypes: ["type", "variable"],
+    tokenModifiers: ["declaration", "readonly"],
+  };
+
+  test("decodes relative positions and modifier bits", () => {
+    expect(
+      decodeSemanticTokens(
+        [0, 4, 3, 1, 3, 0, 6, 1, 0, 0, 2, 2, 5, 1, 2],
+        legend
+      )
+    ).toEqual([
+      {
+        line: 0,
+        start: 4,
+        length: 3,
+        type: "variable",
+        modifiers: ["declaration", "readonly"],
+      },
+      { line: 0, start: 10, length: 1, type: "type", modifiers: [] },
+      {
+        line: 2,
+        start: 2,
+        length: 5,
+        type: "variable",
+        modifiers: ["readonly"],
+      },
+    ]);
+  });
+});
+
+describe("applySemanticTokensEdits", () => {
+  test("applies edits to the previous data", () => {
+    expect(
+      applySemanticTokensEdits(
+        [0, 4, 3, 1, 3, 0, 6, 1, 0, 0],
+        [
+          { start: 0, deleteCount: 1, data: [1] },
+          { start: 5, deleteCount: 5 },
+        ]
+      )
+    ).toEqual([1, 4, 3, 1, 3]);
+  });
+});
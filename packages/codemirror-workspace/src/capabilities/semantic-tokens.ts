@@ -0,0 +1,148 @@
+import type { Editor, TextMarker } from "codemirror";
+import type {
+  SemanticTokensEdit,
+  SemanticTokensLegend,
+} from "vscode-languageserver-protocol";
+
+const states = new WeakMap<Editor, LspSemanticTokensState>();
+
+interface LspSemanticTokensState {
+  // Marks by the class names. Marks move with the edits in the editor.
+  marks: Map<string, TextMarker[]>;
+}
+
+/**
+ * Semantic token with absolute position.
+ */
+export interface SemanticToken {
+  line: number;
+  start: number;
+  length: number;
+  type: string;
+  modifiers: string[];
+}
+
+/**
+ * Decode the semantic tokens encoded as relative integers.
+ * Each token is 5 integers: delta line, delta start, length, type and modifiers.
+ * @param data - Encoded tokens.
+ * @param legend - Legend from the server capabilities.
+ */
+export const decodeSemanticTokens = (
+  data: number[],
+  { tokenTypes, tokenModifiers }: SemanticTokensLegend
+): SemanticToken[] => {
+  const tokens: SemanticToken[] = [];
+  let line = 0;
+  let start = 0;
+  for (let i = 0; i + 4 < data.length; i += 5) {
+    const [deltaLine, deltaStart, length, typeIndex, bits] = data.slice(
+      i,
+      i + 5
+    );
+    line += deltaLine;
+    start = deltaLine === 0 ? start + deltaStart : deltaStart;
+    const type = tokenTypes[typeIndex];
+    // Tokens with unknown types are ignored.
+    if (!type) continue;
+
+    const modifiers = tokenModifiers.filter((_, j) => bits & (1 << j));
+    tokens.push({ line, start, length, type, modifiers });
+  }
+  return tokens;
+};
+
+/**
+ * Apply the edits from a delta response to the previous encoded tokens.
+ * @param data - Previous encoded tokens.
+ * @param edits - Edits to apply. Edits refer to the previous tokens.
+ */
+export const applySemanticTokensEdits = (
+  data: number[],
+  edits: SemanticTokensEdit[]
+): number[] => {
+  const result = data.slice();
+  // Apply from the end so that earlier offsets remain valid.
+  const sorted = edits.slice().sort((a, b) => b.start - a.start);
+  for (const { start, deleteCount, data: inserted = [] } of sorted) {
+    result.splice(start, deleteCount, ...inserted);
+  }
+  return result;
+};
+
+/**
+ * Mark the semantic tokens with `cmw-semantic-<type>` and `cmw-semantic-mod-<modifier>` classes.
+ * Only the marks that changed since the last call are replaced.
+ * @param editor
+ * @param tokens - Tokens to mark.
+ */
+export const setSemanticTokens = (editor: Editor, tokens: SemanticToken[]) => {
+  const state = states.get(editor) || { marks: new Map() };
+  const marks = new Map<string, TextMarker[]>();
+  editor.operation(() => {
+    // Existing marks by their current position and class names
+    const existing = new Map<string, TextMarker>();
+    for (const [className, ms] of state.marks) {
+      for (const mark of ms) {
+        const range = mark.find();
+        if (!range || range.from.line !== range.to.line) {
+          mark.clear();
+          continue;
+        }
+
+        const { from, to } = range;
+        const key = `${from.line}:${from.ch}:${to.ch - from.ch}:${className}`;
+        if (existing.has(key)) {
+          mark.clear();
+        } else {
+          existing.set(key, mark);
+        }
+      }
+    }
+
+    for (const { line, start, length, type, modifiers } of tokens) {
+      const className = [
+        `cmw-semantic-${type}`,
+        ...modifiers.map((m) => `cmw-semantic-mod-${m}`),
+      ].join(" ");
+      const key = `${line}:${start}:${length}:${className}`;
+      let mark = existing.get(key);
+      if (mark) {
+        existing.delete(key);
+      } else {
+        mark = editor.markText(
+          { line, ch: start },
+          { line, ch: start + length },
+          { className }
+        );
+      }
+
+      const ms = marks.get(className);
+      if (ms) {
+        ms.push(mark);
+      } else {
+        marks.set(className, [mark]);
+      }
+    }
+
+    for (const mark of existing.values()) mark.clear();
+  });
+  state.marks = marks;
+  states.set(editor, state);
+};
+
+/**
+ * Remove semantic token marks from the editor.
+ * @param editor
+ */
+export const removeSemanticTokens = (editor: Editor) => {
+  const state = states.get(editor);
+  if (!state) return;
+
+  editor.operation(() => {
+    for (const ms of state.marks.values()) {
+      for (const mark of ms) mark.clear();
+    }
+  });
+  states.delete(editor);
+};
@@ -12,6 +12,15 @@ import {
 import { groupBy } from "../utils/array";
 import { applyEdits } from "../utils/editor";
 
+// Editors in snippet mode, jumping between tabstops.
+const activeEditors = new WeakSet<Editor>();
+
+/**
+ * Check if the editor is in snippet mode.
+ * @param cm - Editor
+ */
+export const snippetActive = (cm: Editor) => activeEditors.has(cm);
+
 /**
  * Insert snippet by replacing the range (`from` `to`).
  *
@@ -98,6 +107,7 @@ export const insertSnippet = (
   };
 
   const dispose = () => {
+    activeEditors.delete(cm);
     cm.removeKeyMap(tabstopKeyMap);
     cm.off("mousedown", onMousedown);
 
@@ -133,6 +143,7 @@ export const insertSnippet = (
   });
   cm.addKeyMap(tabstopKeyMap);
   cm.on("mousedown", onMousedown);
+  activeEditors.add(cm);
   jumpTo(0);
   // Finish immediately if the snippet only contained single final tabstop.
   if (tabstopGroups.length === 1 && tabstopGroups[0].length === 1) {
@@ -0,0 +1,86 @@
+import type { Editor } from "codemirror";
+import type { TypeHierarchyItem } from "@qualified/lsp-connection";
+import type { TreeItem } from "../ui/tree-panel";
+
+import { showTreePanel, removeTreePanel } from "../ui/tree-panel";
+
+export type TypeDirection = "supertypes" | "subtypes";
+
+/**
+ * Type hierarchy item from a Language Server.
+ */
+export interface TypeHierarchyNode {
+  serverId: string;
+  item: TypeHierarchyItem;
+}
+
+export interface TypeHierarchyHandlers {
+  /** Get the supertypes or subtypes of the node. */
+  getTypes: (
+    this: void,
+    node: TypeHierarchyNode,
+    direction: TypeDirection
+  ) => Promise<TypeHierarchyNode[]>;
+  /** Show the item. */
+  open: (this: void, item: TypeHierarchyItem) => void;
+}
+
+// The roots have the supertypes and the subtypes as groups.
+// Items below a group only expand in the direction of the group.
+type TypeTreeItem = TreeItem & {
+  node: TypeHierarchyNode;
+  direction?: TypeDirection;
+  group?: boolean;
+};
+
+/**
+ * Show the supertypes and the subtypes of the items in a tree panel.
+ * @param editor
+ * @param roots - Items to show the hierarchy of.
+ * @param handlers - Functions to get the types and show the items.
+ */
+export const showTypeHierarchy = (
+  editor: Editor,
+  roots: TypeHierarchyNode[],
+  { getTypes, open }: TypeHierarchyHandlers
+) => {
+  if (roots.length === 0) return;
+
+  showTreePanel<TypeTreeItem>(editor, {
+    title: "Type Hierarchy",
+    roots: roots.map((node) => toTreeItem(node)),
+    getChildren: async ({ node, direction }) => {
+      if (!direction) {
+        return [
+          { label: "Supertypes", node, direction: "supertypes", group: true },
+          { label: "Subtypes", node, direction: "subtypes", group: true },
+        ];
+      }
+
+      const nodes = await getTypes(node, direction);
+      return nodes.map((n) => toTreeItem(n, direction));
+    },
+    onSelect: ({ node, group }) => {
+      if (!group) open(node.item);
+    },
+  });
+};
+
+/**
+ * Remove the type hierarchy panel from the editor.
+ * @param editor
+ */
+export const removeTypeHierarchy = (editor: Editor) => {
+  removeTreePanel(editor);
+};
+
+const toTreeItem = (
+  node: TypeHierarchyNode,
+  direction?: TypeDirection
+): TypeTreeItem => ({
+  label: node.item.name,
+  detail: node.item.detail,
+  kind: node.item.kind,
+  node,
+  direction,
+});
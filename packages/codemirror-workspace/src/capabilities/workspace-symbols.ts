@@ -0,0 +1,127 @@
+import type { Editor } from "codemirror";
+import type {
+  CancellationToken,
+  Location,
+  SymbolInformation,
+} from "vscode-languageserver-protocol";
+import type { WorkspaceSymbol } from "@qualified/lsp-connection";
+import { CancellationTokenSource } from "vscode-languageserver-protocol";
+
+import { attachTypeahead } from "../ui/typeahead-input";
+import { symbolKindIcon } from "../ui/symbol-kind-icon";
+import { escapeRegExp } from "../utils/regexp";
+import { escapeHtml } from "../utils/html";
+
+// Delay before querying the servers while typing.
+const QUERY_DEBOUNCE = 200;
+
+/**
+ * Workspace symbol from a Language Server.
+ */
+export interface WorkspaceSymbolItem {
+  serverId: string;
+  symbol: SymbolInformation | WorkspaceSymbol;
+}
+
+export interface WorkspaceSymbolHandlers {
+  /** Query the servers. The token is cancelled when the query is superseded. */
+  getSymbols: (
+    this: void,
+    query: string,
+    token: CancellationToken
+  ) => Promise<WorkspaceSymbolItem[]>;
+  /** Resolve the range of the symbol's location. */
+  resolve: (this: void, item: WorkspaceSymbolItem) => Promise<Location>;
+  /** Show the location of the selected symbol. */
+  open: (this: void, location: Location) => void;
+}
+
+type WorkspaceSymbolMenuItem = WorkspaceSymbolItem & { label: string };
+
+/**
+ * Show a palette to search symbols in the workspace.
+ * @param editor
+ * @param handlers - Functions to query, resolve and open the symbols.
+ */
+export const showWorkspaceSymbolPalette = (
+  editor: Editor,
+  { getSymbols, resolve, open }: WorkspaceSymbolHandlers
+) => {
+  const wrapper = editor.getWrapperElement();
+  const dialog = wrapper.appendChild(document.createElement("div"));
+  const input = dialog.appendChild(document.createElement("input"));
+  dialog.className = "cmw-workspace-symbols";
+  input.className = "cmw-workspace-symbols-input";
+  input.placeholder = "Go to Symbol in Workspace";
+
+  let source: CancellationTokenSource | undefined;
+  const cancelQuery = () => {
+    if (!source) return;
+
+    source.cancel();
+    source.dispose();
+    source = undefined;
+  };
+
+  const disposeTypeahead = attachTypeahead<WorkspaceSymbolMenuItem>(input, {
+    className: "cmw-workspace-symbols-list",
+    debounceTimeout: QUERY_DEBOUNCE,
+    getSuggestions: async (text) => {
+      cancelQuery();
+      if (text === "") return [];
+
+      source = new CancellationTokenSource();
+      const items = await getSymbols(
+        text,
+        source.token
+      ).catch((): WorkspaceSymbolItem[] => []);
+      return items.map((item) => ({ ...item, label: item.symbol.name }));
+    },
+    render: (item, value) => {
+      const div = document.createElement("div");
+      const { kind, containerName } = item.symbol;
+      div.appendChild(symbolKindIcon(kind));
+      div.insertAdjacentHTML(
+        "beforeend",
+        escapeHtml(item.label).replace(
+          new RegExp("(" + escapeRegExp(escapeHtml(value)) + ")", "i"),
+          `<span class="matched">$1</span>`
+        )
+      );
+      if (containerName) {
+        const container = div.appendChild(document.createElement("span"));
+        container.className = "cmw-workspace-symbols-container";
+        container.textContent = containerName;
+      }
+      return div;
+    },
+    onSelect: (item) => {
+      close();
+      const { location } = item.symbol;
+      if ("range" in location) {
+        open(location);
+      } else {
+        resolve(item).then(open);
+      }
+    },
+    onCancel: () => {
+      input.blur();
+      close();
+    },
+  });
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+
+    closed = true;
+    cancelQuery();
+    disposeTypeahead();
+    dialog.remove();
+    editor.focus();
+  };
+  dialog.addEventListener("focusout", (e) => {
+    if (e.relatedTarget !== null) close();
+  });
+  input.focus();
+};
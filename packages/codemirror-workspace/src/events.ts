@@ -1,13 +1,48 @@
 import type { Editor, EditorChange } from "codemirror";
+import type { ProgressToken } from "vscode-languageserver-protocol";
 import type { Stream, Disposer } from "./utils/event-stream";
 import { signal as cmSignal } from "codemirror";
 
 export interface EditorEventMap {
   changes: [cm: Editor, changes: EditorChange[]];
   cursorActivity: [cm: Editor];
+  viewportChange: [cm: Editor, from: number, to: number];
   contextmenu: [cm: Editor, event: MouseEvent];
   "cmw:contextMenuOpened": [cm: Editor];
   "cmw:contextMenuClosed": [cm: Editor];
+  "cmw:refreshCodeLenses": [cm: Editor];
+  "cmw:refreshSemanticTokens": [cm: Editor];
+  "cmw:refreshInlayHints": [cm: Editor];
+}
+
+/**
+ * State of the connection to a Language Server.
+ *
+ * - `connected`: Initialized and ready to use.
+ * - `reconnecting`: Lost the connection and trying to reconnect.
+ * - `disconnected`: Shut down, or failed to reconnect.
+ */
+export type ConnectionState = "connected" | "reconnecting" | "disconnected";
+
+/**
+ * State of the work done progress reported by a Language Server.
+ */
+export interface ProgressState {
+  /** Title of the operation, e.g., "Indexing". */
+  title: string;
+  /** Optional detailed message of the current progress. */
+  message?: string;
+  /** Optional percentage from 0 to 100. */
+  percentage?: number;
+  /** Whether the operation can be cancelled with `Workspace.cancelProgress`. */
+  cancellable: boolean;
+  /** Set when the operation ended. */
+  done: boolean;
+}
+
+export interface WorkspaceEventMap {
+  connectionStateChange: [serverId: string, state: ConnectionState];
+  progress: [serverId: string, token: ProgressToken, state: ProgressState];
 }
 
 export interface EditorEventTarget<K extends keyof EditorEventMap> {
@@ -1 +1,14 @@
 export { Workspace } from "./workspace";
+export type {
+  WorkspaceOptions,
+  LanguageAssociation,
+  ReconnectOptions,
+  InlayHintKindOptions,
+  MessageLevel,
+  ResourceOperation,
+} from "./workspace";
+export type {
+  ConnectionState,
+  ProgressState,
+  WorkspaceEventMap,
+} from "./events";
@@ -0,0 +1,80 @@
+import type { Disposer } from "../utils/event-stream";
+
+// Notifications without actions are closed automatically after this duration,
+// unless it's an error.
+const AUTO_CLOSE_DELAY = 5000;
+
+/**
+ * Show a notification at the bottom right of the page.
+ * @param message - Message to show.
+ * @param level - Level of the message. Added as a modifier class.
+ * @param actions - Titles of the buttons to show.
+ * @param onClose - Called with the title of the clicked button, or `null` if dismissed.
+ * @returns Function to remove the notification.
+ */
+export const showNotification = (
+  message: string,
+  level: string,
+  actions: string[] = [],
+  onClose?: (this: void, action: string | null) => void
+): Disposer => {
+  const container = getContainer();
+  const notification = container.appendChild(document.createElement("div"));
+  notification.className = `cmw-notification cmw-notification--${level}`;
+
+  const text = notification.appendChild(document.createElement("div"));
+  text.className = "cmw-notification-message";
+  text.textContent = message;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  const close = (action: string | null) => {
+    if (closed) return;
+
+    closed = true;
+    if (timer !== null) clearTimeout(timer);
+    notification.remove();
+    if (container.childElementCount === 0) container.remove();
+    if (onClose) onClose(action);
+  };
+
+  const closeButton = notification.appendChild(
+    document.createElement("button")
+  );
+  closeButton.className = "cmw-notification-close";
+  closeButton.title = "Close";
+  closeButton.textContent = "×";
+  closeButton.addEventListener("click", () => close(null));
+
+  if (actions.length > 0) {
+    const buttons = notification.appendChild(document.createElement("div"));
+    buttons.className = "cmw-notification-actions";
+    for (const action of actions) {
+      const button = buttons.appendChild(document.createElement("button"));
+      button.className = "cmw-notification-action";
+      button.textContent = action;
+      button.addEventListener("click", () => close(action));
+    }
+  } else if (level !== "error") {
+    timer = setTimeout(() => close(null), AUTO_CLOSE_DELAY);
+  }
+
+  return () => close(null);
+};
+
+const getContainer = (): HTMLElement => {
+  const existing = document.querySelector<HTMLElement>(".cmw-notifications");
+  if (existing) return existing;
+
+  const container = document.createElement("div");
+  container.className = "cmw-notifications";
+  container.style.cssText = [
+    "z-index: 20;",
+    "position: fixed;",
+    "right: 8px;",
+    "bottom: 8px;",
+    "max-width: 50ch;",
+  ].join("");
+  document.body.appendChild(container);
+  return container;
+};
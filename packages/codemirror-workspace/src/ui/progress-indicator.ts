@@ -0,0 +1,72 @@
+import type { ProgressToken } from "vscode-languageserver-protocol";
+import type { ProgressState } from "../events";
+
+export interface ProgressIndicator {
+  /** Show the progress, or remove it when done. */
+  update(serverId: string, token: ProgressToken, state: ProgressState): void;
+  /** Remove the indicator. */
+  dispose(): void;
+}
+
+/**
+ * Create a status indicator for work done progress at the bottom left of the page.
+ * @param onCancel - Called when the cancel button of a cancellable progress is clicked.
+ */
+export const createProgressIndicator = (
+  onCancel: (this: void, serverId: string, token: ProgressToken) => void
+): ProgressIndicator => {
+  const container = document.createElement("div");
+  container.className = "cmw-progress";
+  container.style.cssText = [
+    "z-index: 20;",
+    "position: fixed;",
+    "left: 8px;",
+    "bottom: 8px;",
+    "max-width: 50ch;",
+  ].join("");
+  const items = new Map<string, HTMLElement>();
+
+  return {
+    update(serverId, token, state) {
+      const key = `${serverId}:${token}`;
+      let item = items.get(key);
+      if (state.done) {
+        if (item) {
+          item.remove();
+          items.delete(key);
+        }
+        if (items.size === 0) container.remove();
+        return;
+      }
+
+      if (!item) {
+        item = container.appendChild(document.createElement("div"));
+        item.className = "cmw-progress-item";
+        items.set(key, item);
+      }
+      item.textContent = "";
+      const label = item.appendChild(document.createElement("span"));
+      label.className = "cmw-progress-label";
+      label.textContent = [
+        state.title,
+        state.message,
+        typeof state.percentage === "number" ? `${state.percentage}%` : "",
+      ]
+        .filter((s) => !!s)
+        .join(" ");
+      if (state.cancellable) {
+        const button = item.appendChild(document.createElement("button"));
+        button.className = "cmw-progress-cancel";
+        button.title = "Cancel";
+        button.textContent = "×";
+        button.addEventListener("click", () => onCancel(serverId, token));
+      }
+      if (!container.parentNode) document.body.appendChild(container);
+    },
+
+    dispose() {
+      items.clear();
+      container.remove();
+    },
+  };
+};
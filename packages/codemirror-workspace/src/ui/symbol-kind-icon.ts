@@ -0,0 +1,15 @@
+import type { SymbolKind } from "vscode-languageserver-protocol";
+
+import { symbolKindToString } from "../utils/conversions";
+
+/**
+ * Create the icon for the kind of the symbol, colored by the kind.
+ * @param kind
+ */
+export const symbolKindIcon = (kind?: SymbolKind) => {
+  const icon = document.createElement("div");
+  const hue = Math.floor(((kind || 0) / 30) * 180 + 180);
+  icon.style.color = `hsl(${hue}, 75%, 50%)`;
+  icon.className = `cmw-icon cmw-icon--${symbolKindToString(kind)}`;
+  return icon;
+};
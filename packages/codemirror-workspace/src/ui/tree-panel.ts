@@ -0,0 +1,137 @@
+import type { Editor } from "codemirror";
+import type { SymbolKind } from "vscode-languageserver-protocol";
+
+import { symbolKindIcon } from "./symbol-kind-icon";
+
+export interface TreeItem {
+  label: string;
+  detail?: string;
+  kind?: SymbolKind;
+}
+
+export interface TreePanelOptions<T extends TreeItem> {
+  title: string;
+  roots: T[];
+  /** Get the children of the item. Called once when the item is first expanded. */
+  getChildren: (this: void, item: T) => Promise<T[]>;
+  onSelect: (this: void, item: T) => void;
+}
+
+interface TreePanelState {
+  panel: HTMLElement;
+}
+const states = new WeakMap<Editor, TreePanelState>();
+
+/**
+ * Show a panel with a lazily expanding tree at the top right of the editor.
+ * Replaces the panel already shown in the editor.
+ * @param cm - Editor
+ * @param options
+ */
+export const showTreePanel = <T extends TreeItem>(
+  cm: Editor,
+  { title, roots, getChildren, onSelect }: TreePanelOptions<T>
+) => {
+  removeTreePanel(cm);
+
+  const panel = document.createElement("div");
+  panel.className = "cmw-tree-panel";
+  panel.tabIndex = -1;
+  panel.style.cssText = [
+    "z-index: 15;",
+    "position: absolute;",
+    "top: 0;",
+    "right: 0;",
+    "overflow: auto;",
+  ].join("");
+
+  const header = panel.appendChild(document.createElement("div"));
+  header.className = "cmw-tree-panel-header";
+  header.appendChild(document.createTextNode(title));
+  const close = header.appendChild(document.createElement("button"));
+  close.className = "cmw-tree-panel-close";
+  close.title = "Close";
+  close.textContent = "×";
+  close.addEventListener("click", () => {
+    removeTreePanel(cm);
+    cm.focus();
+  });
+  panel.addEventListener("keydown", (e) => {
+    if (e.key === "Escape" || e.key === "Esc") {
+      e.preventDefault();
+      removeTreePanel(cm);
+      cm.focus();
+    }
+  });
+
+  const renderNode = (item: T): HTMLElement => {
+    const node = document.createElement("div");
+    node.className = "cmw-tree-panel-node";
+    const row = node.appendChild(document.createElement("div"));
+    row.className = "cmw-tree-panel-row";
+    const toggle = row.appendChild(document.createElement("span"));
+    toggle.className = "cmw-tree-panel-toggle";
+    toggle.textContent = "▸";
+    if (typeof item.kind === "number") {
+      row.appendChild(symbolKindIcon(item.kind));
+    }
+    const label = row.appendChild(document.createElement("span"));
+    label.className = "cmw-tree-panel-label";
+    label.textContent = item.label;
+    if (item.detail) {
+      const detail = row.appendChild(document.createElement("span"));
+      detail.className = "cmw-tree-panel-detail";
+      detail.textContent = item.detail;
+    }
+
+    let children: HTMLElement | undefined;
+    toggle.addEventListener("click", async (e) => {
+      e.stopPropagation();
+      if (children) {
+        const expanded = children.style.display !== "none";
+        children.style.display = expanded ? "none" : "";
+        toggle.textContent = expanded ? "▸" : "▾";
+        return;
+      }
+
+      children = node.appendChild(document.createElement("div"));
+      children.className = "cmw-tree-panel-children";
+      toggle.textContent = "▾";
+      const items = await getChildren(item).catch((): T[] => []);
+      if (items.length === 0) {
+        // Leaf
+        toggle.textContent = "";
+        return;
+      }
+      for (const child of items) children.appendChild(renderNode(child));
+    });
+    row.addEventListener("click", () => {
+      for (const el of panel.querySelectorAll(".cmw-tree-panel-row.selected")) {
+        el.classList.remove("selected");
+      }
+      row.classList.add("selected");
+      onSelect(item);
+    });
+    return node;
+  };
+
+  const tree = panel.appendChild(document.createElement("div"));
+  tree.className = "cmw-tree-panel-tree";
+  for (const item of roots) tree.appendChild(renderNode(item));
+
+  cm.getWrapperElement().appendChild(panel);
+  panel.focus();
+  states.set(cm, { panel });
+};
+
+/**
+ * Remove the tree panel from the editor.
+ * @param cm - Editor
+ */
+export const removeTreePanel = (cm: Editor) => {
+  const state = states.get(cm);
+  if (!state) return;
+
+  state.panel.remove();
+  states.delete(cm);
+};
@@ -0,0 +1,18 @@
+/**
+ * @jest-environment node
+ */
+import { cssColor, hexColor, parseHexColor } from "./color";
+
+describe("color conversions", () => {
+  const orange = { red: 1, green: 136 / 255, blue: 0, alpha: 0.5 };
+
+  test("formats as CSS colors", () => {
+    expect(cssColor(orange)).toBe("rgba(255, 136, 0, 0.5)");
+    expect(hexColor(orange)).toBe("#ff8800");
+  });
+
+  test("parses 6 digit hex with alpha", () => {
+    expect(parseHexColor("#FF8800", 0.5)).toEqual(orange);
+    expect(parseHexColor("#f80")).toBeUndefined();
+  });
+});
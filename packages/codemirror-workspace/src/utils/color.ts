@@ -0,0 +1,43 @@
+import type { Color } from "vscode-languageserver-protocol";
+
+// Conversions between LSP colors (components in [0, 1]) and CSS colors.
+
+const toByte = (c: number) => Math.round(Math.min(Math.max(c, 0), 1) * 255);
+
+/**
+ * Format the color as CSS `rgba()`.
+ * @param color
+ */
+export const cssColor = ({ red, green, blue, alpha }: Color): string =>
+  `rgba(${toByte(red)}, ${toByte(green)}, ${toByte(blue)}, ${alpha})`;
+
+/**
+ * Format the color as 6 digit hex used by `<input type="color">`.
+ * Alpha is ignored.
+ * @param color
+ */
+export const hexColor = ({ red, green, blue }: Color): string =>
+  "#" +
+  [red, green, blue]
+    .map((c) => toByte(c).toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * Parse 6 digit hex color.
+ * @param hex - Color like `#ff8800`.
+ * @param alpha - Alpha of the color, defaults to 1.
+ */
+export const parseHexColor = (hex: string, alpha = 1): Color | undefined => {
+  const m = /^#([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(hex);
+  if (!m) return;
+
+  const [red, green, blue] = m.slice(1).map((h) => parseInt(h, 16) / 255);
+  return { red, green, blue, alpha };
+};
+
+/**
+ * Test if the string is a valid CSS color.
+ * @param s
+ */
+export const isCssColor = (s: string): boolean =>
+  typeof CSS !== "undefined" && CSS.supports("color", s);
@@ -4,6 +4,7 @@ import type {
   Range,
   DiagnosticSeverity,
   DiagnosticTag,
+  MessageType,
   CompletionItemKind,
   SymbolKind,
   TextDocumentContentChangeEvent,
@@ -37,6 +38,9 @@ export const cmRange = ({ start, end }: Range): [CMPosition, CMPosition] => [
   cmPosition(end),
 ];
 
+// The last segment of the URI, e.g., the file name.
+export const uriBasename = (uri: string) => uri.replace(/^.*\//, "");
+
 export const diagnosticSeverityName = (
   severity: DiagnosticSeverity
 ): string => {
@@ -63,6 +67,21 @@ export const diagnosticTagName = (tag: DiagnosticTag): string => {
   }
 };
 
+export const messageTypeName = (
+  type: MessageType
+): "error" | "warning" | "info" | "log" => {
+  switch (type) {
+    case 1 /* MessageType.Error */:
+      return "error";
+    case 2 /* MessageType.Warning */:
+      return "warning";
+    case 3 /* MessageType.Info */:
+      return "info";
+    case 4 /* MessageType.Log */:
+      return "log";
+  }
+};
+
 export const documentationToString = (
   doc?: string | MarkupContent,
   renderMarkdown: (x: string) => string = (x) => x
@@ -1,5 +1,8 @@
 import type { Editor, TextMarker, Position } from "codemirror";
-import type { TextEdit } from "vscode-languageserver-protocol";
+import type {
+  FormattingOptions,
+  TextEdit,
+} from "vscode-languageserver-protocol";
 
 import { cmRange } from "./conversions";
 
@@ -27,6 +30,21 @@ export const applyEdits = (cm: Editor, edits: TextEdit[], origin?: string) => {
   current.clear();
 };
 
+/**
+ * Get the formatting options from the editor's indentation options.
+ * @param cm - Editor
+ */
+export const getFormattingOptions = (cm: Editor): FormattingOptions => {
+  const insertSpaces = !cm.getOption("indentWithTabs");
+  return {
+    // Size of each indentation level when indenting with spaces.
+    tabSize: insertSpaces
+      ? cm.getOption("indentUnit") ?? 2
+      : cm.getOption("tabSize") ?? 4,
+    insertSpaces,
+  };
+};
+
 /**
  * Highlight range of text.
  * @param cm - Editor to operate on.
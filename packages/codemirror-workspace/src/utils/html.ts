@@ -0,0 +1,6 @@
+/**
+ * Escape the special characters to insert the text as HTML.
+ * @param s
+ */
+export const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
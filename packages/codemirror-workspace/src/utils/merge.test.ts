@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { mergeCompletionItems, mergeLocations } from "./merge";
+
+describe("mergeCompletionItems", () => {
+  test("combines arrays and completion lists, ignoring null", () => {
+    expect(
+      mergeCompletionItems([
+        [{ label: "a" }, { label: "b" }],
+        null,
+        { isIncomplete: false, items: [{ label: "c" }] },
+      ])
+    ).toEqual([{ label: "a" }, { label: "b" }, { label: "c" }]);
+  });
+});
+
+describe("mergeLocations", () => {
+  const range = {
+    start: { line: 0, character: 0 },
+    end: { line: 0, character: 1 },
+  };
+
+  test("combines single locations and arrays, ignoring null", () => {
+    expect(
+      mergeLocations([
+        { uri: "file:///a", range },
+        null,
+        [
+          { uri: "file:///b", range },
+          { uri: "file:///c", range },
+        ],
+      ])
+    ).toEqual([
+      { uri: "file:///a", range },
+      { uri: "file:///b", range },
+      { uri: "file:///c", range },
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import type {
+  CompletionItem,
+  CompletionList,
+  Location,
+  LocationLink,
+} from "vscode-languageserver-protocol";
+
+// Helpers to combine responses from multiple Language Servers.
+
+/**
+ * Merge completion responses into a single list of items.
+ * @param results - Responses from each server.
+ */
+export const mergeCompletionItems = (
+  results: (CompletionItem[] | CompletionList | null)[]
+): CompletionItem[] =>
+  results.flatMap((r) => (!r ? [] : Array.isArray(r) ? r : r.items));
+
+/**
+ * Merge location responses into a single list of locations.
+ * @param results - Responses from each server.
+ */
+export const mergeLocations = (
+  results: (Location | Location[] | LocationLink[] | null)[]
+): (Location | LocationLink)[] =>
+  results.flatMap<Location | LocationLink>((r) =>
+    !r ? [] : Array.isArray(r) ? r : [r]
+  );
@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { getSettingsSection } from "./settings";
+
+describe("getSettingsSection", () => {
+  const settings = {
+    "rust-analyzer": { checkOnSave: { command: "clippy" } },
+    typescript: null,
+  };
+
+  test("returns the whole settings without section", () => {
+    expect(getSettingsSection(settings)).toBe(settings);
+    expect(getSettingsSection(undefined)).toBeNull();
+  });
+
+  test("looks up the dot-separated section", () => {
+    expect(getSettingsSection(settings, "rust-analyzer")).toEqual({
+      checkOnSave: { command: "clippy" },
+    });
+    expect(
+      getSettingsSection(settings, "rust-analyzer.checkOnSave.command")
+    ).toBe("clippy");
+  });
+
+  test("returns null for missing sections", () => {
+    expect(getSettingsSection(settings, "python")).toBeNull();
+    expect(getSettingsSection(settings, "typescript.strict")).toBeNull();
+    expect(
+      getSettingsSection(settings, "rust-analyzer.checkOnSave.command.x")
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Get the value of the configuration section from the settings.
+ * The section is a dot-separated path, e.g., `"rust-analyzer.checkOnSave"`.
+ * Returns `null` if the section doesn't exist, and the whole settings if
+ * the section is not specified.
+ * @param settings - Settings object.
+ * @param section - Configuration section.
+ */
+export const getSettingsSection = (settings: any, section?: string): any => {
+  if (!section) return settings ?? null;
+
+  let value = settings;
+  for (const key of section.split(".")) {
+    if (value === null || typeof value !== "object" || !(key in value)) {
+      return null;
+    }
+    value = value[key];
+  }
+  return value ?? null;
+};
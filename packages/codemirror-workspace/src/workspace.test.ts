@@ -0,0 +1,295 @@
+/**
+ * @jest-environment jsdom
+ */
+import CodeMirror from "codemirror";
+import type {
+  ApplyWorkspaceEditParams,
+  PublishDiagnosticsParams,
+} from "vscode-languageserver-protocol";
+import type { LspConnection } from "@qualified/lsp-connection";
+import { createMessageConnection } from "@qualified/vscode-jsonrpc-ww";
+
+import { Workspace, WorkspaceOptions } from "./workspace";
+import { fakeKeyInput } from "../test-helpers/key-events";
+
+jest.mock("@qualified/vscode-jsonrpc-ww", () => ({
+  createMessageConnection: jest.fn(),
+}));
+// Use the fake connections as they are.
+jest.mock("@qualified/lsp-connection", () => ({
+  ...jest.requireActual("@qualified/lsp-connection"),
+  createLspConnection: (conn: unknown) => conn,
+}));
+
+// Workers created by the workspace.
+const workers: FakeWorker[] = [];
+class FakeWorker {
+  constructor(public url: string) {
+    workers.push(this);
+  }
+  terminate = jest.fn();
+}
+Object.assign(window, { Worker: FakeWorker });
+
+// Connection with the given members. Other handlers are ignored, and other
+// requests resolve with `null`.
+const fakeConnection = (members: Partial<Record<keyof LspConnection, any>>) =>
+  new Proxy(
+    {
+      listen: jest.fn(),
+      initialize: jest.fn(async () => ({ capabilities: {} })),
+      initialized: jest.fn(),
+      configurationChanged: jest.fn(),
+      textDocumentOpened: jest.fn(),
+      textDocumentClosed: jest.fn(),
+      textDocumentChanged: jest.fn(),
+      shutdown: jest.fn(async () => null),
+      exit: jest.fn(),
+      dispose: jest.fn(),
+      completionTriggers: [],
+      signatureHelpTriggers: [],
+      signatureHelpRetriggers: [],
+      onTypeFormattingTriggers: [],
+      ...members,
+    } as Record<string, any>,
+    {
+      get: (target, prop) => {
+        if (typeof prop !== "string" || prop in target) {
+          return target[prop as string];
+        }
+        if (/^on[A-Z]/.test(prop)) return () => {};
+        if (/^(?:get|resolve|prepare)[A-Z]/.test(prop)) return async () => null;
+        return undefined;
+      },
+    }
+  ) as LspConnection;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Workspace", () => {
+  // Map of the server ID to the connection, or a promise to control when it connects.
+  let servers: { [id: string]: LspConnection | Promise<LspConnection> };
+  const createWorkspace = (options: Partial<WorkspaceOptions> = {}) =>
+    new Workspace({
+      rootUri: "file:///project/",
+      getConnectionString: async (id) => `${id}.js`,
+      // Use the servers named in the file name, e.g., `a+b.js`.
+      getLanguageAssociation: (uri) => ({
+        languageId: "javascript",
+        languageServerIds: uri.replace(/^.*\/|\.js$/g, "").split("+"),
+      }),
+      ...options,
+    });
+  const createEditor = (value: string) => {
+    const div = document.createElement("div");
+    document.body.appendChild(div);
+    return CodeMirror(div, { value });
+  };
+
+  beforeEach(() => {
+    servers = {};
+    workers.length = 0;
+    (createMessageConnection as jest.Mock).mockImplementation(
+      async (worker: FakeWorker) => servers[worker.url.replace(/\.js$/, "")]
+    );
+  });
+
+  describe("openTextDocument", () => {
+    test("opens the documents on the servers connected later", async () => {
+      const x = fakeConnection({});
+      const y = fakeConnection({});
+      servers.x = x;
+      servers.y = Promise.reject(new Error("Failed to connect"));
+
+      const workspace = createWorkspace();
+      await workspace.openTextDocument("x+y.js", createEditor("a"));
+      expect(x.textDocumentOpened).toHaveBeenCalledTimes(1);
+
+      servers.y = y;
+      await workspace.openTextDocument("y.js", createEditor("b"));
+      expect(y.textDocumentOpened).toHaveBeenCalledWith({
+        textDocument: {
+          uri: "file:///project/x+y.js",
+          languageId: "javascript",
+          text: "a",
+          version: 1,
+        },
+      });
+      expect(y.textDocumentOpened).toHaveBeenCalledTimes(2);
+      await workspace.dispose();
+    });
+  });
+
+  describe("reconnect", () => {
+    test("opens the documents again and clears the diagnostics", async () => {
+      let close = () => {};
+      let publish: (params: PublishDiagnosticsParams) => void = () => {};
+      servers.a = fakeConnection({
+        onClose: (handler: () => void) => {
+          close = handler;
+        },
+        onDiagnostics: (handler: typeof publish) => {
+          publish = handler;
+        },
+      });
+      const workspace = createWorkspace({ reconnect: { initialDelay: 0 } });
+      const states: string[] = [];
+      workspace.on("connectionStateChange", (_, state) => states.push(state));
+      const editor = createEditor("let x = 1;");
+      await workspace.openTextDocument("a.js", editor);
+
+      const uri = "file:///project/a.js";
+      const range = {
+        start: { line: 0, character: 4 },
+        end: { line: 0, character: 5 },
+      };
+      publish({ uri, diagnostics: [{ range, message: "unused" }] });
+      expect(editor.getAllMarks()).toHaveLength(1);
+      editor.replaceRange("2", { line: 0, ch: 8 }, { line: 0, ch: 9 });
+      // Wait for the change to be sent.
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const reconnected = fakeConnection({});
+      servers.a = reconnected;
+      close();
+      expect(editor.getAllMarks()).toHaveLength(0);
+      await flush();
+      await flush();
+      expect(reconnected.textDocumentOpened).toHaveBeenCalledWith({
+        textDocument: {
+          uri,
+          languageId: "javascript",
+          text: "let x = 2;",
+          version: 2,
+        },
+      });
+      expect(states).toEqual(["connected", "reconnecting", "connected"]);
+      await workspace.dispose();
+    });
+  });
+
+  describe("dispose", () => {
+    test("shuts down the servers when another server fails to connect", async () => {
+      const conn = fakeConnection({});
+      servers.good = conn;
+      let fail: (e: Error) => void = () => {};
+      servers.bad = new Promise((_, reject) => (fail = reject));
+
+      const workspace = createWorkspace();
+      await workspace.openTextDocument("good.js", createEditor(""));
+      workspace.openTextDocument("bad.js", createEditor(""));
+      await flush();
+      const disposing = workspace.dispose();
+      fail(new Error("WebSocket closed before opening"));
+      await expect(disposing).resolves.toBeUndefined();
+      expect(conn.shutdown).toHaveBeenCalled();
+      expect(conn.exit).toHaveBeenCalled();
+    });
+
+    test("terminates the servers not answering initialize", async () => {
+      servers.a = fakeConnection({ initialize: () => new Promise(() => {}) });
+      const workspace = createWorkspace();
+      workspace.openTextDocument("a.js", createEditor(""));
+      await flush();
+      await workspace.dispose();
+      expect(workers[0].terminate).toHaveBeenCalled();
+    });
+
+    test("stops waiting to reconnect", async () => {
+      let close = () => {};
+      servers.a = fakeConnection({
+        onClose: (handler: () => void) => {
+          close = handler;
+        },
+      });
+      const workspace = createWorkspace({ reconnect: { initialDelay: 60000 } });
+      await workspace.openTextDocument("a.js", createEditor(""));
+      close();
+      const start = Date.now();
+      await workspace.dispose();
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+  });
+
+  describe("workspace/applyEdit", () => {
+    test("fails without changes if the document version differs", async () => {
+      let applyEdit: (params: ApplyWorkspaceEditParams) => unknown = () => {};
+      servers.a = fakeConnection({
+        onApplyEdit: (handler: typeof applyEdit) => {
+          applyEdit = handler;
+        },
+      });
+      const workspace = createWorkspace();
+      const editor = createEditor("let x = 1;");
+      await workspace.openTextDocument("a.js", editor);
+
+      const start = { line: 0, character: 4 };
+      const end = { line: 0, character: 5 };
+      const response = await applyEdit({
+        edit: {
+          documentChanges: [
+            {
+              textDocument: { uri: "file:///project/a.js", version: 2 },
+              edits: [{ range: { start, end }, newText: "y" }],
+            },
+          ],
+        },
+      });
+      expect(response).toEqual({
+        applied: false,
+        failureReason:
+          'Document "file:///project/a.js" has version 1, expected 2',
+        failedChange: 0,
+      });
+      expect(editor.getValue()).toBe("let x = 1;");
+      await workspace.dispose();
+    });
+  });
+
+  describe("saveTextDocument", () => {
+    test("notifies the save when formatting fails", async () => {
+      const conn = fakeConnection({
+        textDocumentWillSave: jest.fn(),
+        textDocumentSaved: jest.fn(),
+        getDocumentFormatting: async () => {
+          throw new Error("Internal error");
+        },
+      });
+      servers.a = conn;
+      const workspace = createWorkspace({ formatOnSave: true });
+      await workspace.openTextDocument("a.js", createEditor("let x = 1;"));
+      await workspace.saveTextDocument("a.js");
+      expect(conn.textDocumentSaved).toHaveBeenCalledWith({
+        textDocument: { uri: "file:///project/a.js" },
+        text: "let x = 1;",
+      });
+      await workspace.dispose();
+    });
+  });
+
+  describe("rename", () => {
+    test("shows the error if the position can't be renamed", async () => {
+      servers.a = fakeConnection({
+        supportsRename: true,
+        supportsPrepareRename: true,
+        prepareRename: async () => {
+          throw new Error("You cannot rename this element");
+        },
+      });
+      const showMessage = jest.fn();
+      const workspace = createWorkspace({ showMessage });
+      const editor = createEditor("let x = 1;");
+      await workspace.openTextDocument("a.js", editor);
+
+      editor.setCursor({ line: 0, ch: 4 });
+      fakeKeyInput(editor, "F2");
+      await flush();
+      expect(showMessage).toHaveBeenCalledWith(
+        "You cannot rename this element",
+        "error",
+        "a"
+      );
+      await workspace.dispose();
+    });
+  });
+});
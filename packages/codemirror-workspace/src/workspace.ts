@@ -1,15 +1,50 @@
 import type { Editor, Position } from "codemirror";
-import { normalizeKeyMap } from "codemirror";
+import type {
+  ApplyWorkspaceEditResponse,
+  CodeAction,
+  Command,
+  CreateFile,
+  DeleteFile,
+  Diagnostic,
+  Hover,
+  Location,
+  LocationLink,
+  MessageConnection,
+  ProgressToken,
+  Range,
+  RenameFile,
+  TextDocumentEdit,
+  TextEdit,
+  WorkDoneProgressBegin,
+  WorkDoneProgressEnd,
+  WorkDoneProgressReport,
+  WorkspaceEdit,
+} from "vscode-languageserver-protocol";
+import { changeEnd, normalizeKeyMap } from "codemirror";
 import {
+  CodeActionKind,
   CompletionTriggerKind,
   SignatureHelpTriggerKind,
   DiagnosticTag,
+  FailureHandlingKind,
+  ResourceOperationKind,
+  SemanticTokenModifiers,
+  SemanticTokenTypes,
   TextDocumentSaveReason,
+  TokenFormat,
 } from "vscode-languageserver-protocol";
 
 import { createMessageConnection as createWebSocketMessageConnection } from "@qualified/vscode-jsonrpc-ws";
 import { createMessageConnection as createWorkerMessageConnection } from "@qualified/vscode-jsonrpc-ww";
 import { createLspConnection, LspConnection } from "@qualified/lsp-connection";
+import type {
+  InlayHintClientCapabilities,
+  InlayHintLabelPart,
+  InlayHintWorkspaceClientCapabilities,
+  TypeHierarchyClientCapabilities,
+  WorkspaceSymbolClientCapabilities,
+} from "@qualified/lsp-connection";
+import { InlayHintKind } from "@qualified/lsp-connection";
 
 import {
   showDiagnostics,
@@ -24,10 +59,56 @@ import {
   showInvokedCompletions,
   showTriggeredCompletions,
   hideCompletions,
+  completionActive,
+  snippetActive,
   showSignatureHelp,
   removeSignatureHelp,
   gotoLocation,
+  revealRange,
   showSymbolSelector,
+  showRenameInput,
+  removeRenameInput,
+  showLightbulb,
+  removeLightbulb,
+  showCodeActionMenu,
+  showCodeLenses,
+  getUnresolvedCodeLenses,
+  updateCodeLens,
+  removeCodeLenses,
+  setFoldingRanges,
+  removeFoldingRanges,
+  expandSelection,
+  shrinkSelection,
+  removeSelectionRanges,
+  showDocumentLinks,
+  removeDocumentLinks,
+  showColorSwatches,
+  removeColorSwatches,
+  showWorkspaceSymbolPalette,
+  showCallHierarchy,
+  removeCallHierarchy,
+  showTypeHierarchy,
+  removeTypeHierarchy,
+  decodeSemanticTokens,
+  applySemanticTokensEdits,
+  setSemanticTokens,
+  removeSemanticTokens,
+  showInlayHints,
+  removeInlayHints,
+  showLinkedEditingRanges,
+  inLinkedEditingRange,
+  removeLinkedEditingRanges,
+  showPeek,
+  removePeek,
+  toTargetLocation,
+} from "./capabilities";
+import type {
+  CallDirection,
+  CodeActionItem,
+  CodeLensItem,
+  InlayHintItem,
+  ModeOption,
+  ShowLocation,
 } from "./capabilities";
 import {
   debounce,
@@ -39,14 +120,28 @@ import {
   Disposer,
   debouncedBuffer,
 } from "./utils/event-stream";
-import { fromEditorEvent, onEditorEvent } from "./events";
-import { lspPosition, lspChange } from "./utils/conversions";
-import { applyEdits } from "./utils/editor";
+import type { WorkspaceEventMap, ProgressState } from "./events";
+import { fromEditorEvent, onEditorEvent, signal } from "./events";
+import {
+  cmRange,
+  lspPosition,
+  lspRange,
+  lspChange,
+  messageTypeName,
+} from "./utils/conversions";
+import { mergeCompletionItems, mergeLocations } from "./utils/merge";
+import { applyEdits, getFormattingOptions } from "./utils/editor";
 import { delay } from "./utils/promise";
-import { showContextMenu } from "./ui/context-menu";
+import { getSettingsSection } from "./utils/settings";
+import { showContextMenu, removeContextMenu } from "./ui/context-menu";
+import { showNotification } from "./ui/notification";
+import type { ProgressIndicator } from "./ui/progress-indicator";
+import { createProgressIndicator } from "./ui/progress-indicator";
 
 // Changes stream emits at most once per 50ms.
 const CHANGES_FRAME = 50;
+// Maximum time to wait for the response to shutdown request.
+const SHUTDOWN_TIMEOUT = 1000;
 
 /**
  * Describes text document's language association.
@@ -58,11 +153,76 @@ export interface LanguageAssociation {
   languageId: string;
   /**
    * IDs of language servers to connect to.
-   * Accepts multiple IDs for future extension, but currently only the first one is used.
+   * The document is synchronized with every server listed, and the responses
+   * are combined where possible (completion, hover, locations).
    */
   languageServerIds: string[];
 }
 
+/**
+ * Operation to create, rename or delete a file in a workspace edit.
+ */
+export type ResourceOperation = CreateFile | RenameFile | DeleteFile;
+
+/**
+ * Level of the message from a Language Server.
+ */
+export type MessageLevel = "error" | "warning" | "info" | "log";
+
+/**
+ * Options for reconnecting to a Language Server with exponential backoff.
+ * The delay before each attempt is `initialDelay * multiplier ** attempt`, capped at `maxDelay`.
+ */
+export interface ReconnectOptions {
+  /**
+   * Maximum number of attempts. Set to 0 to disable reconnection. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first attempt in milliseconds. Defaults to 500.
+   */
+  initialDelay?: number;
+  /**
+   * Maximum delay between attempts in milliseconds. Defaults to 10000.
+   */
+  maxDelay?: number;
+  /**
+   * Factor to increase the delay by after each attempt. Defaults to 2.
+   */
+  multiplier?: number;
+}
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 5,
+  initialDelay: 500,
+  maxDelay: 10000,
+  multiplier: 2,
+};
+
+/**
+ * Options to show inlay hints by kind.
+ */
+export interface InlayHintKindOptions {
+  /**
+   * Show inferred types. Defaults to `true`.
+   */
+  type?: boolean;
+  /**
+   * Show parameter names. Defaults to `true`.
+   */
+  parameter?: boolean;
+  /**
+   * Show hints without a kind. Defaults to `true`.
+   */
+  other?: boolean;
+}
+
+const DEFAULT_INLAY_HINT_OPTIONS: Required<InlayHintKindOptions> = {
+  type: true,
+  parameter: true,
+  other: true,
+};
+
 /**
  * Options for Workspace.
  */
@@ -94,12 +254,118 @@ export interface WorkspaceOptions {
    * If not provided and the server's response contains Markdown, it'll be displayed as is.
    */
   renderMarkdown?: (this: void, markdown: string) => string;
-  // Called when jumping to different document.
-  // showTextDocument?: (uri: string, line?: number, character?: number) => void;
-  // Called on showMeessage notification
-  // showMessage?: (message: string, level: "error" | "warning" | "info" | "log") => void;
-  // Called on logMeessage notification
-  // logMessage?: (message: string, level: "error" | "warning" | "info" | "log") => void;
+  /**
+   * Map of Language Server ID to `initializationOptions` sent with the `initialize` request.
+   */
+  initializationOptions?: { [serverId: string]: any };
+  /**
+   * Provide the settings for the Language Server.
+   * Used to answer `workspace/configuration` requests, and sent with
+   * `workspace/didChangeConfiguration` notification after initialization.
+   *
+   * `scopeUri` is set when the server requests the settings for a specific resource.
+   * Settings passed to `Workspace.updateConfiguration` take precedence.
+   */
+  getSettings?: (this: void, serverId: string, scopeUri?: string) => any;
+  /**
+   * Options for reconnecting when the connection to a Language Server is lost.
+   */
+  reconnect?: ReconnectOptions;
+  /**
+   * Format the document with the Language Server in `saveTextDocument`
+   * before notifying the save. Defaults to `false`.
+   */
+  formatOnSave?: boolean;
+  /**
+   * Show the work done progress reported by the Language Servers at the bottom
+   * left of the page. Defaults to `false`.
+   * Use the `progress` event to show it differently.
+   */
+  showProgress?: boolean;
+  /**
+   * Kinds of inlay hints to show in the viewport. All kinds are shown by default.
+   */
+  inlayHints?: InlayHintKindOptions;
+  /**
+   * Function to show the text document with the URI, e.g., by switching tabs.
+   * Called when jumping to a location in a different document.
+   *
+   * Return (or resolve with) the editor once it's shown, so that the target
+   * can be highlighted. If nothing is returned, the editor opened in the
+   * workspace for the URI is used.
+   */
+  showTextDocument?: (
+    this: void,
+    uri: string,
+    range: Range
+  ) => Editor | void | Promise<Editor | void>;
+  /**
+   * Function to open links to external resources, e.g., `https:` URLs and files
+   * outside of the project. Links to files in the project are shown with `showTextDocument`.
+   * Defaults to opening the link in a new window.
+   */
+  openExternal?: (this: void, url: string) => void;
+  /**
+   * Function to create, rename or delete a file for the workspace edit requested
+   * by the Language Server (`workspace/applyEdit`). Throw or reject to fail the edit.
+   * If the document is open, the host is responsible for closing or reopening it.
+   * Resource operations are not supported if not provided.
+   */
+  applyResourceOperation?: (
+    this: void,
+    operation: ResourceOperation
+  ) => void | Promise<void>;
+  /**
+   * Function to apply text edits to a document that is not open in the workspace,
+   * e.g., when renaming a symbol used in other files. Throw or reject to fail the edit.
+   * Edits to documents that are not open fail if not provided.
+   */
+  applyTextEdits?: (
+    this: void,
+    uri: string,
+    edits: TextEdit[]
+  ) => void | Promise<void>;
+  /**
+   * Function to get the content of a document that is not open in the workspace,
+   * e.g., to peek at the definition in another file.
+   * Return (or resolve with) `null` if not available.
+   */
+  getTextDocumentContent?: (
+    this: void,
+    uri: string
+  ) => string | null | Promise<string | null>;
+  /**
+   * Function to show a message from the Language Server (`window/showMessage`).
+   * If not provided, the message is shown as a notification at the bottom right of the page.
+   */
+  showMessage?: (
+    this: void,
+    message: string,
+    level: MessageLevel,
+    serverId: string
+  ) => void;
+  /**
+   * Function to ask the user to choose one of the actions (`window/showMessageRequest`).
+   * Resolve with the title of the chosen action, or `null` if dismissed.
+   * If not provided, the message is shown as a notification with buttons for the actions.
+   */
+  showMessageRequest?: (
+    this: void,
+    message: string,
+    level: MessageLevel,
+    actions: string[],
+    serverId: string
+  ) => Promise<string | null>;
+  /**
+   * Function to log a message from the Language Server (`window/logMessage`).
+   * Messages are ignored if not provided.
+   */
+  logMessage?: (
+    this: void,
+    message: string,
+    level: MessageLevel,
+    serverId: string
+  ) => void;
 }
 
 /**
@@ -112,6 +378,19 @@ export class Workspace {
   private editors: { [uri: string]: Editor };
   // Map of Language Server ID to connection.
   private connections: { [id: string]: LspConnection };
+  // Map of Language Server ID to pending connection.
+  // Used to share the connection when multiple documents are opened at once.
+  private pendingConnections: {
+    [id: string]: Promise<LspConnection | undefined>;
+  };
+  // Map of Language Server ID to function to close the WebSocket or terminate the Worker.
+  private transportDisposers: { [id: string]: Disposer };
+  // Map of Language Server ID to the states of ongoing work done progress.
+  private progress: { [id: string]: Map<ProgressToken, ProgressState> };
+  // Built-in status indicator, if enabled.
+  private progressIndicator?: ProgressIndicator;
+  // Map of `documentUri` to diagnostics from each Language Server.
+  private diagnostics: { [uri: string]: { [id: string]: Diagnostic[] } };
   // Map of `documentUri` to document versions.
   private documentVersions: { [uri: string]: number };
   // Array of Disposers to remove event listeners.
@@ -123,8 +402,68 @@ export class Workspace {
   // Function to get convert Markdown to HTML string.
   private renderMarkdown: (markdown: string) => string;
   private canHandleMarkdown: boolean;
+  // Functions to show and log messages from the Language Servers.
+  private showMessage: (
+    message: string,
+    level: MessageLevel,
+    serverId: string
+  ) => void;
+  private showMessageRequest: (
+    message: string,
+    level: MessageLevel,
+    actions: string[],
+    serverId: string
+  ) => Promise<string | null>;
+  private logMessage: (
+    message: string,
+    level: MessageLevel,
+    serverId: string
+  ) => void;
+  // Disposers of the notifications shown by default.
+  private notificationDisposers: Set<Disposer>;
+  // Function to open links to external resources.
+  private openExternal: (url: string) => void;
+  // Function to apply resource operations in the host.
+  private applyResourceOperation?: (
+    operation: ResourceOperation
+  ) => void | Promise<void>;
+  // Function to apply text edits to documents that are not open.
+  private applyTextEdits?: (
+    uri: string,
+    edits: TextEdit[]
+  ) => void | Promise<void>;
+  // Function to get the content of documents that are not open.
+  private getTextDocumentContent?: (
+    uri: string
+  ) => string | null | Promise<string | null>;
+  // Function to show the text document in the host.
+  private showTextDocument?: (
+    uri: string,
+    range: Range
+  ) => Editor | void | Promise<Editor | void>;
   // The URI of the project root.
   private rootUri: string;
+  // Map of Language Server ID to `initializationOptions`.
+  private initializationOptions: { [id: string]: any };
+  // Function to get the settings for the Language Server.
+  private getSettings: (serverId: string, scopeUri?: string) => any;
+  // Map of Language Server ID to the settings from `updateConfiguration`.
+  private settings: { [id: string]: any };
+  // Format the document before saving.
+  private formatOnSave: boolean;
+  // Options for reconnecting when the connection to a Language Server is lost.
+  private reconnectOptions: Required<ReconnectOptions>;
+  // Kinds of inlay hints to show.
+  private inlayHintOptions: Required<InlayHintKindOptions>;
+  // Map of command ID to handlers registered by the host.
+  private commands: { [command: string]: (...args: any[]) => unknown };
+  // Map of event type to handlers.
+  private eventHandlers: { [type: string]: ((...args: any) => void)[] };
+  // Set once `dispose` is called.
+  private disposed: boolean;
+  // Resolved once `dispose` is called to stop waiting, e.g., to reconnect.
+  private whenDisposed: Promise<void>;
+  private notifyDisposed: () => void;
 
   /**
    * Create new workspace.
@@ -133,23 +472,176 @@ export class Workspace {
   constructor(options: WorkspaceOptions) {
     this.editors = Object.create(null);
     this.connections = Object.create(null);
+    this.pendingConnections = Object.create(null);
+    this.transportDisposers = Object.create(null);
+    this.progress = Object.create(null);
+    this.diagnostics = Object.create(null);
     this.documentVersions = Object.create(null);
     this.subscriptionDisposers = new WeakMap();
     this.rootUri =
       options.rootUri + (!options.rootUri.endsWith("/") ? "/" : "");
     this.getConnectionString = options.getConnectionString.bind(void 0);
+    this.initializationOptions = { ...options.initializationOptions };
+    this.getSettings = options.getSettings
+      ? options.getSettings.bind(void 0)
+      : () => null;
+    this.settings = Object.create(null);
     this.getLanguageAssociation = options.getLanguageAssociation.bind(void 0);
     this.canHandleMarkdown = typeof options.renderMarkdown === "function";
     const renderMarkdown = options.renderMarkdown || ((x: string) => x);
     this.renderMarkdown = renderMarkdown.bind(void 0);
+    this.showTextDocument = options.showTextDocument?.bind(void 0);
+    this.openExternal = options.openExternal
+      ? options.openExternal.bind(void 0)
+      : (url) => {
+          window.open(url, "_blank", "noopener");
+        };
+    this.applyResourceOperation = options.applyResourceOperation?.bind(void 0);
+    this.applyTextEdits = options.applyTextEdits?.bind(void 0);
+    this.getTextDocumentContent = options.getTextDocumentContent?.bind(void 0);
+    this.showMessage = options.showMessage
+      ? options.showMessage.bind(void 0)
+      : (message, level) => {
+          this.showNotification(message, level, []);
+        };
+    this.showMessageRequest = options.showMessageRequest
+      ? options.showMessageRequest.bind(void 0)
+      : (message, level, actions) =>
+          this.showNotification(message, level, actions);
+    this.logMessage = options.logMessage
+      ? options.logMessage.bind(void 0)
+      : () => {};
+    this.notificationDisposers = new Set();
+    this.formatOnSave = !!options.formatOnSave;
+    this.reconnectOptions = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...options.reconnect,
+    };
+    this.inlayHintOptions = {
+      ...DEFAULT_INLAY_HINT_OPTIONS,
+      ...options.inlayHints,
+    };
+    this.commands = Object.create(null);
+    this.eventHandlers = Object.create(null);
+    this.disposed = false;
+    let notifyDisposed = () => {};
+    this.whenDisposed = new Promise((resolve) => (notifyDisposed = resolve));
+    this.notifyDisposed = notifyDisposed;
+    if (options.showProgress) {
+      const indicator = createProgressIndicator((serverId, token) => {
+        this.cancelProgress(serverId, token);
+      });
+      this.on("progress", (serverId, token, state) => {
+        indicator.update(serverId, token, state);
+      });
+      this.progressIndicator = indicator;
+    }
   }
 
   /**
    * Dispose the workspace.
-   * Close connections and remove references to editors.
+   * Close all documents, shut down the Language Servers, close connections and
+   * remove references to editors.
+   * @returns Promise resolved once everything is released.
+   */
+  async dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.notifyDisposed();
+
+    for (const uri of Object.keys(this.editors)) {
+      this.removeEventHandlers(this.editors[uri]);
+      for (const conn of this.documentConnections(uri)) {
+        conn.textDocumentClosed({
+          textDocument: { uri },
+        });
+      }
+    }
+    this.editors = Object.create(null);
+    this.documentVersions = Object.create(null);
+    this.diagnostics = Object.create(null);
+
+    for (const dispose of this.notificationDisposers) dispose();
+    this.notificationDisposers.clear();
+    if (this.progressIndicator) this.progressIndicator.dispose();
+
+    // Wait for connections in progress so they can be shut down as well, at most
+    // `SHUTDOWN_TIMEOUT` ms. Connections failing in the meantime have nothing to shut down.
+    await Promise.race([
+      Promise.all(
+        Object.values(this.pendingConnections).map((pending) =>
+          pending.catch(() => undefined)
+        )
+      ),
+      delay(SHUTDOWN_TIMEOUT),
+    ]);
+    await Promise.all(
+      Object.keys(this.transportDisposers).map((id) => this.disconnect(id))
+    );
+  }
+
+  /**
+   * Add a handler for the workspace event.
+   * @param type - Event type.
+   * @param handler - Function called with the event parameters.
+   * @returns Function to remove the handler.
+   */
+  on<K extends keyof WorkspaceEventMap>(
+    type: K,
+    handler: (this: void, ...args: WorkspaceEventMap[K]) => void
+  ): Disposer {
+    const handlers =
+      this.eventHandlers[type] || (this.eventHandlers[type] = []);
+    handlers.push(handler);
+    return () => {
+      const i = handlers.indexOf(handler);
+      if (i !== -1) handlers.splice(i, 1);
+    };
+  }
+
+  /**
+   * Register a client command.
+   * Commands from code lenses and code actions are handled by the client
+   * command if registered, and executed on the Language Server otherwise.
+   * @param command - Command ID, e.g., `"rust-analyzer.runSingle"`.
+   * @param handler - Function called with the command arguments.
+   * @returns Function to unregister the command.
+   */
+  registerCommand(
+    command: string,
+    handler: (this: void, ...args: any[]) => unknown
+  ): Disposer {
+    this.commands[command] = handler;
+    return () => {
+      if (this.commands[command] === handler) delete this.commands[command];
+    };
+  }
+
+  /**
+   * Update the settings for the Language Server and notify it with
+   * `workspace/didChangeConfiguration`.
+   * The settings are also used to answer `workspace/configuration` requests.
+   * @param serverId - ID of the language server.
+   * @param settings - The new settings.
+   */
+  updateConfiguration(serverId: string, settings: any) {
+    this.settings[serverId] = settings;
+    const conn = this.connections[serverId];
+    if (conn) conn.configurationChanged({ settings });
+  }
+
+  /**
+   * Request the Language Server to cancel the work done progress.
+   * Ignored unless the progress is cancellable.
+   * @param serverId - ID of the language server.
+   * @param token - The progress token given by the `progress` event.
    */
-  dispose() {
-    // TODO shutdown and exit all connections
+  cancelProgress(serverId: string, token: ProgressToken) {
+    const conn = this.connections[serverId];
+    const state = this.progress[serverId]?.get(token);
+    if (conn && state && state.cancellable) {
+      conn.cancelWorkDoneProgress({ token });
+    }
   }
 
   /**
@@ -159,32 +651,38 @@ export class Workspace {
    * @param editor - CodeMirror Editor instance.
    */
   async openTextDocument(path: string, editor: Editor) {
+    if (this.disposed) return;
     const uri = this.getDocumentUri(path);
     const assoc = this.getLanguageAssociation(uri);
     if (!assoc) return;
-    // TODO Allow connecting to multiple language servers
-    const serverId = assoc.languageServerIds[0];
-    if (!serverId) return;
-    const conn = await this.connect(serverId);
-    if (!conn) return;
+    // Servers failing to connect are skipped.
+    const conns = await Promise.all(
+      assoc.languageServerIds.map((id) =>
+        this.connect(id).catch(() => undefined)
+      )
+    );
+    if (this.disposed || !conns.some((conn) => !!conn)) return;
 
     this.editors[uri] = editor;
     this.documentVersions[uri] = 0;
-    const languageId = assoc.languageId;
-    conn.textDocumentOpened({
-      textDocument: {
-        uri,
-        languageId,
-        text: editor.getValue(),
-        version: ++this.documentVersions[uri],
-      },
-    });
+    const textDocument = {
+      uri,
+      languageId: assoc.languageId,
+      text: editor.getValue(),
+      version: ++this.documentVersions[uri],
+    };
+    // Servers connected while waiting for the others are included.
+    for (const conn of this.documentConnections(uri)) {
+      conn.textDocumentOpened({ textDocument });
+    }
 
-    this.addEventHandlers(uri, editor, conn);
+    this.addEventHandlers(uri, editor);
   }
 
   // TODO Clean up. Workspace should signal custom events for providers to react
-  private addEventHandlers(uri: string, editor: Editor, conn: LspConnection) {
+  private addEventHandlers(uri: string, editor: Editor) {
+    // Connections are looked up on each event so that servers connected later are used.
+    const getConns = () => this.documentConnections(uri);
     const disposers: Disposer[] = [];
     const changeStream = piped(
       fromEditorEvent(editor, "changes"),
@@ -192,21 +690,33 @@ export class Workspace {
       map((buffered) => {
         const cm = buffered[0][0];
         // Send incremental contentChanges
-        conn.textDocumentChanged({
-          textDocument: {
-            uri,
-            version: ++this.documentVersions[uri],
-          },
-          contentChanges: conn.syncsIncrementally
-            ? buffered.flatMap(([_, cs]) => cs.map(lspChange))
-            : [{ text: cm.getValue() }],
-        });
+        const textDocument = {
+          uri,
+          version: ++this.documentVersions[uri],
+        };
+        for (const conn of getConns()) {
+          conn.textDocumentChanged({
+            textDocument,
+            contentChanges: conn.syncsIncrementally
+              ? buffered.flatMap(([_, cs]) => cs.map(lspChange))
+              : [{ text: cm.getValue() }],
+          });
+        }
 
         // Only pass the editor and the last change object.
         const lastChanges = buffered[buffered.length - 1][1];
         return [cm, lastChanges[lastChanges.length - 1]] as const;
       }),
       filter(([cm, change]) => {
+        // Edits requested by the server
+        if (
+          change.origin === "workspaceEdit" ||
+          change.origin === "format" ||
+          change.origin === "color" ||
+          change.origin === "linkedEditing"
+        ) {
+          return false;
+        }
         // Text removed
         if (
           change.origin === "+delete" ||
@@ -221,6 +731,7 @@ export class Workspace {
     );
     disposers.push(
       changeStream(([cm, change]) => {
+        const conns = getConns();
         const pos = cm.getCursor();
         const token = cm.getTokenAt(pos);
         if (token.type && /\b(?:variable|property|type)\b/.test(token.type)) {
@@ -228,66 +739,76 @@ export class Workspace {
           removeSignatureHelp(cm);
           // TODO Make minimum characters configurable
           // if (token.string.length < 3) return;
-          conn
-            .getCompletion({
-              textDocument: { uri },
-              position: lspPosition(pos),
-              // Completion triggered by typing an identifier or manual invocation.
-              context: { triggerKind: CompletionTriggerKind.Invoked },
-            })
-            .then((items) => {
-              if (!items) return;
-              // CompletionList to CompletionItem[]
-              if (!Array.isArray(items)) items = items.items;
-              showInvokedCompletions(
-                cm,
-                items,
-                [
-                  { line: pos.line, ch: token.start },
-                  { line: pos.line, ch: token.end },
-                ],
-                this.renderMarkdown
-              );
-            });
+          Promise.all(
+            conns.map((conn) =>
+              conn
+                .getCompletion({
+                  textDocument: { uri },
+                  position: lspPosition(pos),
+                  // Completion triggered by typing an identifier or manual invocation.
+                  context: { triggerKind: CompletionTriggerKind.Invoked },
+                })
+                .catch(() => null)
+            )
+          ).then((results) => {
+            showInvokedCompletions(
+              cm,
+              mergeCompletionItems(results),
+              [
+                { line: pos.line, ch: token.start },
+                { line: pos.line, ch: token.end },
+              ],
+              this.renderMarkdown
+            );
+          });
           return;
         }
 
         // List of characters to trigger completion other than identifiers.
-        const completionTriggers = conn.completionTriggers;
         const triggerCharacter = change.text[change.text.length - 1];
-        if (completionTriggers.includes(triggerCharacter)) {
+        const completionConns = conns.filter((conn) =>
+          conn.completionTriggers.includes(triggerCharacter)
+        );
+        if (completionConns.length > 0) {
           // TODO Show both completion and signature help
           removeSignatureHelp(cm);
-          conn
-            .getCompletion({
-              textDocument: { uri },
-              position: lspPosition(pos),
-              // Triggered by a trigger character specified by the `triggerCharacters`.
-              context: {
-                triggerKind: CompletionTriggerKind.TriggerCharacter,
-                triggerCharacter,
-              },
-            })
-            .then((items) => {
-              if (!items) return;
-              // CompletionList to CompletionItem[]
-              if (!Array.isArray(items)) items = items.items;
-              showTriggeredCompletions(cm, items, pos, this.renderMarkdown);
-            });
+          Promise.all(
+            completionConns.map((conn) =>
+              conn
+                .getCompletion({
+                  textDocument: { uri },
+                  position: lspPosition(pos),
+                  // Triggered by a trigger character specified by the `triggerCharacters`.
+                  context: {
+                    triggerKind: CompletionTriggerKind.TriggerCharacter,
+                    triggerCharacter,
+                  },
+                })
+                .catch(() => null)
+            )
+          ).then((results) => {
+            showTriggeredCompletions(
+              cm,
+              mergeCompletionItems(results),
+              pos,
+              this.renderMarkdown
+            );
+          });
           return;
         }
 
-        const signatureHelpTriggers = conn.signatureHelpTriggers;
-        const signatureHelpRetriggers = conn.signatureHelpRetriggers;
-        if (
-          signatureHelpTriggers.includes(triggerCharacter) ||
-          signatureHelpRetriggers.includes(triggerCharacter)
-        ) {
+        // Signature help is not merged. Use the first server triggered by the character.
+        const signatureHelpConn = conns.find(
+          (conn) =>
+            conn.signatureHelpTriggers.includes(triggerCharacter) ||
+            conn.signatureHelpRetriggers.includes(triggerCharacter)
+        );
+        if (signatureHelpConn) {
           // TODO Show both completion and signature help
           hideCompletions(cm);
           removeSignatureHelp(cm);
           // const getActiveSignatureHelp = getActiveSignatureHelp(cm);
-          conn
+          signatureHelpConn
             .getSignatureHelp({
               textDocument: { uri },
               position: lspPosition(pos),
@@ -312,6 +833,42 @@ export class Workspace {
       })
     );
 
+    // Format after typing a trigger character, once the change is sent.
+    // Skipped while completing or in snippet mode to not move the text around.
+    const onTypeFormattingStream = piped(
+      fromEditorEvent(editor, "changes"),
+      map(([cm, changes]) => [cm, changes[changes.length - 1]] as const),
+      filter(([_, change]) => change.origin === "+input"),
+      debounce(CHANGES_FRAME * 1.5),
+      filter(([cm]) => !completionActive(cm) && !snippetActive(cm))
+    );
+    disposers.push(
+      onTypeFormattingStream(([cm, change]) => {
+        const ch = change.text.join("\n").slice(-1);
+        // Use the first server triggered by the character.
+        const conn = getConns().find((conn) =>
+          conn.onTypeFormattingTriggers.includes(ch)
+        );
+        if (!conn) return;
+
+        const generation = cm.changeGeneration();
+        conn
+          .getOnTypeFormatting({
+            textDocument: { uri },
+            position: lspPosition(changeEnd(change)),
+            ch,
+            options: getFormattingOptions(cm),
+          })
+          .then((edits) => {
+            if (!edits || edits.length === 0 || !cm.isClean(generation)) return;
+            if (completionActive(cm) || snippetActive(cm)) return;
+
+            applyEdits(cm, edits, "format");
+          })
+          .catch(() => {});
+      })
+    );
+
     // Highlights identifiers matching the word under cursor
     const cursorActivityStream = piped(
       fromEditorEvent(editor, "cursorActivity"),
@@ -328,15 +885,22 @@ export class Workspace {
     );
     disposers.push(
       cursorActivityStream(([cm, pos]) => {
-        conn
-          .getDocumentHighlight({
-            textDocument: { uri },
-            position: lspPosition(pos),
-          })
-          .then((highlights) => {
-            removeHighlights(cm);
-            if (highlights) showHighlights(cm, highlights);
-          });
+        Promise.all(
+          getConns().map((conn) =>
+            conn
+              .getDocumentHighlight({
+                textDocument: { uri },
+                position: lspPosition(pos),
+              })
+              .catch(() => null)
+          )
+        ).then((results) => {
+          removeHighlights(cm);
+          showHighlights(
+            cm,
+            results.flatMap((highlights) => highlights || [])
+          );
+        });
       })
     );
 
@@ -370,17 +934,22 @@ export class Workspace {
           return;
         }
 
-        conn
-          .getHoverInfo({
-            textDocument: { uri },
-            position: lspPosition(pos),
-          })
-          .then((hover) => {
-            if (hover) {
-              removeSignatureHelp(editor);
-              showHoverInfo(editor, pos, hover, this.renderMarkdown);
-            }
-          });
+        Promise.all(
+          getConns().map((conn) =>
+            conn
+              .getHoverInfo({
+                textDocument: { uri },
+                position: lspPosition(pos),
+              })
+              .catch(() => null)
+          )
+        ).then((results) => {
+          const hovers = results.filter((hover): hover is Hover => !!hover);
+          if (hovers.length > 0) {
+            removeSignatureHelp(editor);
+            showHoverInfo(editor, pos, hovers, this.renderMarkdown);
+          }
+        });
       })
     );
 
@@ -395,101 +964,842 @@ export class Workspace {
       })
     );
 
+    const getDefinitions = (pos: Position) =>
+      Promise.all(
+        getConns().map((conn) =>
+          conn
+            .getDefinition({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null)
+        )
+      ).then(mergeLocations);
     const gotoDefinition = (cm: Editor, pos: Position) => {
-      conn
-        .getDefinition({
-          textDocument: { uri },
-          position: lspPosition(pos),
-        })
-        .then((location) => {
-          if (location) gotoLocation(cm, uri, location);
-        });
+      getDefinitions(pos).then((locations) => {
+        gotoLocation(
+          cm,
+          uri,
+          locations,
+          this.showLocation,
+          this.getTextDocumentContentOf
+        );
+      });
     };
     const gotoDeclaration = (cm: Editor, pos: Position) => {
-      conn
-        .getDeclaration({
-          textDocument: { uri },
-          position: lspPosition(pos),
-        })
-        .then((location) => {
-          if (location) gotoLocation(cm, uri, location);
-        });
+      Promise.all(
+        getConns().map((conn) =>
+          conn
+            .getDeclaration({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null)
+        )
+      ).then((results) => {
+        gotoLocation(
+          cm,
+          uri,
+          mergeLocations(results),
+          this.showLocation,
+          this.getTextDocumentContentOf
+        );
+      });
     };
     const gotoTypeDefinition = (cm: Editor, pos: Position) => {
-      conn
-        .getTypeDefinition({
-          textDocument: { uri },
-          position: lspPosition(pos),
-        })
-        .then((location) => {
-          if (location) gotoLocation(cm, uri, location);
-        });
+      Promise.all(
+        getConns().map((conn) =>
+          conn
+            .getTypeDefinition({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null)
+        )
+      ).then((results) => {
+        gotoLocation(
+          cm,
+          uri,
+          mergeLocations(results),
+          this.showLocation,
+          this.getTextDocumentContentOf
+        );
+      });
     };
+    const getReferences = (pos: Position) =>
+      Promise.all(
+        getConns().map((conn) =>
+          conn
+            .getReferences({
+              textDocument: { uri },
+              position: lspPosition(pos),
+              context: {
+                includeDeclaration: true,
+              },
+            })
+            .catch(() => null)
+        )
+      ).then(mergeLocations);
     const gotoReferences = (cm: Editor, pos: Position) => {
-      conn
-        .getReferences({
-          textDocument: { uri },
-          position: lspPosition(pos),
-          context: {
-            includeDeclaration: true,
-          },
-        })
-        .then((location) => {
-          if (location) gotoLocation(cm, uri, location);
-        });
+      getReferences(pos).then((locations) => {
+        gotoLocation(
+          cm,
+          uri,
+          locations,
+          this.showLocation,
+          this.getTextDocumentContentOf
+        );
+      });
+    };
+    // Show the locations in a widget below the line.
+    const peekLocations = (
+      cm: Editor,
+      pos: Position,
+      locations: (Location | LocationLink)[]
+    ) => {
+      showPeek(cm, pos.line, locations.map(toTargetLocation), {
+        getContent: this.getTextDocumentContentOf,
+        getMode: this.getModeOf,
+        open: ({ uri: target, range, selectionRange }) => {
+          if (target === uri) {
+            revealRange(cm, range, selectionRange);
+          } else {
+            this.showLocation(target, range, selectionRange);
+          }
+        },
+      });
     };
     const gotoImplementations = (cm: Editor, pos: Position) => {
-      conn
-        .getImplementation({
-          textDocument: { uri },
-          position: lspPosition(pos),
+      Promise.all(
+        getConns().map((conn) =>
+          conn
+            .getImplementation({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null)
+        )
+      ).then((results) => {
+        gotoLocation(
+          cm,
+          uri,
+          mergeLocations(results),
+          this.showLocation,
+          this.getTextDocumentContentOf
+        );
+      });
+    };
+    const gotoSymbol = async (cm: Editor) => {
+      // Symbols are not merged. Use the first server with any symbols.
+      for (const conn of getConns()) {
+        const symbols = await conn
+          .getDocumentSymbol({ textDocument: { uri } })
+          .catch(() => null);
+        if (symbols && symbols.length > 0) {
+          showSymbolSelector(cm, uri, symbols, this.showLocation);
+          return;
+        }
+      }
+    };
+    // Show the callers or callees of the symbol at the position.
+    const showCalls = async (
+      cm: Editor,
+      pos: Position,
+      direction: CallDirection
+    ) => {
+      const results = await Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const items = await this.connections[serverId]
+            .prepareCallHierarchy({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null);
+          return (items || []).map((item) => ({
+            serverId,
+            item,
+            callSites: [],
+          }));
         })
-        .then((location) => {
-          if (location) gotoLocation(cm, uri, location);
-        });
+      );
+      showCallHierarchy(cm, results.flat(), direction, {
+        getCalls: async ({ serverId, item }, direction) => {
+          const conn = this.connections[serverId];
+          if (!conn) return [];
+
+          if (direction === "incoming") {
+            const calls = await conn.getIncomingCalls({ item });
+            // The calls are in the caller.
+            return (calls || []).map(({ from, fromRanges }) => ({
+              serverId,
+              item: from,
+              callSites: fromRanges.map((range) => ({ uri: from.uri, range })),
+            }));
+          }
+
+          const calls = await conn.getOutgoingCalls({ item });
+          // The calls are in the item.
+          return (calls || []).map(({ to, fromRanges }) => ({
+            serverId,
+            item: to,
+            callSites: fromRanges.map((range) => ({ uri: item.uri, range })),
+          }));
+        },
+        open: (location) => {
+          gotoLocation(cm, uri, [location], this.showLocation);
+        },
+      });
     };
 
-    disposers.push(
-      onEditorEvent(editor, "contextmenu", ([cm, e]) => {
-        e.preventDefault();
-        const pos = cm.coordsChar({ left: e.pageX, top: e.pageY }, "page");
-        // TODO Disable items if the server doesn't support it.
-        showContextMenu(cm, e.pageX, e.pageY, [
-          [
-            {
-              label: "Go to Definition",
-              handler: () => {
-                gotoDefinition(cm, pos);
-              },
-            },
-            {
-              label: "Go to Type Definition",
-              handler: () => {
-                gotoTypeDefinition(cm, pos);
-              },
-            },
-            {
-              label: "Go to Implementations",
-              handler: () => {
-                gotoImplementations(cm, pos);
+    // Show the supertypes and the subtypes of the type at the position.
+    const showTypes = async (cm: Editor, pos: Position) => {
+      const results = await Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const items = await this.connections[serverId]
+            .prepareTypeHierarchy({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null);
+          return (items || []).map((item) => ({ serverId, item }));
+        })
+      );
+      showTypeHierarchy(cm, results.flat(), {
+        getTypes: async ({ serverId, item }, direction) => {
+          const conn = this.connections[serverId];
+          if (!conn) return [];
+
+          const items = await (direction === "supertypes"
+            ? conn.getSupertypes({ item })
+            : conn.getSubtypes({ item }));
+          return (items || []).map((item) => ({ serverId, item }));
+        },
+        open: (item) => {
+          gotoLocation(
+            cm,
+            uri,
+            [
+              {
+                targetUri: item.uri,
+                targetRange: item.range,
+                targetSelectionRange: item.selectionRange,
               },
-            },
-            {
-              label: "Go to References",
+            ],
+            this.showLocation
+          );
+        },
+      });
+    };
+
+    // Search symbols in all connected servers.
+    const gotoWorkspaceSymbol = (cm: Editor) => {
+      showWorkspaceSymbolPalette(cm, {
+        getSymbols: async (query, token) => {
+          const results = await Promise.all(
+            Object.entries(this.connections).map(async ([serverId, conn]) => {
+              const symbols = await conn
+                .getWorkspaceSymbols({ query }, token)
+                .catch(() => null);
+              return (symbols || []).map((symbol) => ({ serverId, symbol }));
+            })
+          );
+          return results.flat();
+        },
+        resolve: async ({ serverId, symbol }) => {
+          const resolved = await this.connections[serverId]
+            ?.resolveWorkspaceSymbol(symbol)
+            .catch(() => null);
+          const location = resolved?.location || symbol.location;
+          // Show the start of the document if the range is still unknown.
+          if ("range" in location) return location;
+
+          const start = { line: 0, character: 0 };
+          return { uri: location.uri, range: { start, end: start } };
+        },
+        open: (location) => {
+          gotoLocation(cm, uri, [location], this.showLocation);
+        },
+      });
+    };
+
+    // Code actions for the selection and the diagnostics on the selected lines.
+    const getCodeActions = async (cm: Editor): Promise<CodeActionItem[]> => {
+      const from = cm.getCursor("from");
+      const to = cm.getCursor("to");
+      const results = await Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const diagnostics = (this.diagnostics[uri]?.[serverId] || []).filter(
+            ({ range }) =>
+              range.start.line <= to.line && range.end.line >= from.line
+          );
+          const actions = await this.connections[serverId]
+            .getCodeAction({
+              textDocument: { uri },
+              range: lspRange(from, to),
+              context: { diagnostics },
+            })
+            .catch(() => null);
+          return (actions || []).map((action) => ({ serverId, action }));
+        })
+      );
+      return results.flat();
+    };
+    const showCodeActions = (
+      cm: Editor,
+      x: number,
+      y: number,
+      items: CodeActionItem[]
+    ) => {
+      showCodeActionMenu(cm, x, y, items, ({ serverId, action }) => {
+        this.runCodeAction(serverId, action);
+      });
+    };
+
+    // Show lightbulb when code actions are available at the cursor.
+    let codeActionRequests = 0;
+    const codeActionStream = piped(
+      fromEditorEvent(editor, "cursorActivity"),
+      debounce(250)
+    );
+    disposers.push(
+      codeActionStream(([cm]) => {
+        const count = ++codeActionRequests;
+        getCodeActions(cm).then((items) => {
+          if (count !== codeActionRequests) return;
+
+          const actions = items.filter(
+            ({ action }) => !("disabled" in action && action.disabled)
+          );
+          if (actions.length === 0) {
+            removeLightbulb(cm);
+            return;
+          }
+          showLightbulb(cm, cm.getCursor().line, (x, y) => {
+            showCodeActions(cm, x, y, items);
+          });
+        });
+      })
+    );
+
+    // Link the ranges to edit together when the cursor enters one of them.
+    // Linked ranges are not merged. Use the first server with the ranges.
+    let linkedEditingRequests = 0;
+    const linkedEditingStream = piped(
+      fromEditorEvent(editor, "cursorActivity"),
+      debounce(CHANGES_FRAME * 2)
+    );
+    disposers.push(
+      linkedEditingStream(async ([cm]) => {
+        const pos = cm.getCursor();
+        if (cm.somethingSelected() || inLinkedEditingRange(cm, pos)) return;
+
+        const count = ++linkedEditingRequests;
+        const gen = cm.changeGeneration();
+        for (const conn of getConns()) {
+          const result = await conn
+            .getLinkedEditingRanges({
+              textDocument: { uri },
+              position: lspPosition(pos),
+            })
+            .catch(() => null);
+          // Skip if moved or edited while waiting.
+          if (count !== linkedEditingRequests || !cm.isClean(gen)) return;
+
+          if (result && result.ranges.length > 1) {
+            showLinkedEditingRanges(cm, result.ranges, result.wordPattern);
+            return;
+          }
+        }
+        removeLinkedEditingRanges(cm);
+      })
+    );
+
+    // Show code lenses, resolving them lazily when scrolled into view.
+    let codeLensRequests = 0;
+    const resolvingCodeLenses = new WeakSet<CodeLensItem>();
+    const onCodeLensClick = ({ serverId }: CodeLensItem, command: Command) => {
+      this.executeCommand(serverId, command);
+    };
+    const resolveCodeLenses = (cm: Editor) => {
+      const { from, to } = cm.getViewport();
+      for (const item of getUnresolvedCodeLenses(cm, from, to)) {
+        const conn = this.connections[item.serverId];
+        if (!conn || resolvingCodeLenses.has(item)) continue;
+
+        resolvingCodeLenses.add(item);
+        conn
+          .resolveCodeLens(item.lens)
+          .then((lens) => {
+            if (lens) updateCodeLens(cm, item, lens, onCodeLensClick);
+          })
+          .catch(() => {
+            // Retry when scrolled into view again.
+            resolvingCodeLenses.delete(item);
+          });
+      }
+    };
+    const updateCodeLenses = (cm: Editor) => {
+      const count = ++codeLensRequests;
+      Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const lenses = await this.connections[serverId]
+            .getCodeLens({
+              textDocument: { uri },
+            })
+            .catch(() => null);
+          return (lenses || []).map((lens) => ({ serverId, lens }));
+        })
+      ).then((results) => {
+        if (count !== codeLensRequests) return;
+
+        showCodeLenses(cm, results.flat(), onCodeLensClick);
+        resolveCodeLenses(cm);
+      });
+    };
+
+    // Keep the folding ranges for the fold helper.
+    let foldingRangeRequests = 0;
+    const updateFoldingRanges = async (cm: Editor) => {
+      const count = ++foldingRangeRequests;
+      // Folding ranges are not merged. Use the first server with any ranges.
+      for (const conn of getConns()) {
+        const ranges = await conn
+          .getFoldingRanges({ textDocument: { uri } })
+          .catch(() => null);
+        if (count !== foldingRangeRequests) return;
+
+        if (ranges && ranges.length > 0) {
+          setFoldingRanges(cm, ranges);
+          return;
+        }
+      }
+      removeFoldingRanges(cm);
+    };
+
+    // Make document links from all servers clickable.
+    let documentLinkRequests = 0;
+    const updateDocumentLinks = (cm: Editor) => {
+      const count = ++documentLinkRequests;
+      Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const links = await this.connections[serverId]
+            .getDocumentLink({
+              textDocument: { uri },
+            })
+            .catch(() => null);
+          return (links || []).map((link) => ({ serverId, link }));
+        })
+      ).then((results) => {
+        if (count !== documentLinkRequests) return;
+
+        showDocumentLinks(cm, results.flat(), {
+          resolve: async ({ serverId, link }) => {
+            const conn = this.connections[serverId];
+            return (conn && (await conn.resolveDocumentLink(link))) || link;
+          },
+          open: this.openLink,
+        });
+      });
+    };
+
+    // Show swatches for colors from all servers.
+    let colorRequests = 0;
+    const updateColors = (cm: Editor) => {
+      const count = ++colorRequests;
+      Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const colors = await this.connections[serverId]
+            .getColorSymbols({
+              textDocument: { uri },
+            })
+            .catch(() => null);
+          return (colors || []).map((info) => ({ serverId, info }));
+        })
+      ).then((results) => {
+        if (count !== colorRequests) return;
+
+        showColorSwatches(cm, results.flat(), {
+          getPresentations: async ({ serverId, info }, color) => {
+            const conn = this.connections[serverId];
+            const presentations = await conn
+              ?.getColorPresentation({
+                textDocument: { uri },
+                color,
+                range: info.range,
+              })
+              .catch(() => null);
+            return presentations || [];
+          },
+          apply: ({ info }, { label, textEdit, additionalTextEdits }) => {
+            applyEdits(
+              cm,
+              [
+                textEdit || { range: info.range, newText: label },
+                ...(additionalTextEdits || []),
+              ],
+              "color"
+            );
+          },
+        });
+      });
+    };
+
+    // Mark the semantic tokens from the first server with the legend.
+    // Uses the delta from the previous result if possible, and the tokens
+    // in the viewport if the server can't provide the whole document.
+    let semanticTokensRequests = 0;
+    let previousTokens: { resultId: string; data: number[] } | undefined;
+    let tokensInViewport = false;
+    const updateSemanticTokens = async (cm: Editor) => {
+      const count = ++semanticTokensRequests;
+      const conn = getConns().find((c) => !!c.semanticTokensLegend);
+      const legend = conn?.semanticTokensLegend;
+      if (!conn || !legend) {
+        previousTokens = undefined;
+        removeSemanticTokens(cm);
+        return;
+      }
+
+      const gen = cm.changeGeneration();
+      const textDocument = { uri };
+      let data: number[] | undefined;
+      let resultId: string | undefined;
+      tokensInViewport = false;
+      if (previousTokens && conn.supportsSemanticTokensDelta) {
+        const result = await conn
+          .getSemanticTokensDelta({
+            textDocument,
+            previousResultId: previousTokens.resultId,
+          })
+          .catch(() => null);
+        if (result) {
+          data =
+            "edits" in result
+              ? applySemanticTokensEdits(previousTokens.data, result.edits)
+              : result.data;
+          resultId = result.resultId;
+        }
+      }
+      if (!data) {
+        const result = await conn
+          .getSemanticTokens({ textDocument })
+          .catch(() => null);
+        if (result) {
+          data = result.data;
+          resultId = result.resultId;
+        }
+      }
+      if (!data) {
+        const { from, to } = cm.getViewport();
+        const result = await conn
+          .getSemanticTokensRange({
+            textDocument,
+            range: lspRange({ line: from, ch: 0 }, { line: to, ch: 0 }),
+          })
+          .catch(() => null);
+        if (result) data = result.data;
+        tokensInViewport = !!result;
+      }
+      // Keep the result for the next delta even if superseded.
+      previousTokens = data && resultId ? { resultId, data } : undefined;
+      // Skip if edited while waiting. The marks are updated after the edits.
+      if (count !== semanticTokensRequests || !cm.isClean(gen)) return;
+
+      if (data) {
+        setSemanticTokens(cm, decodeSemanticTokens(data, legend));
+      } else {
+        removeSemanticTokens(cm);
+      }
+    };
+
+    // Show the inlay hints in the viewport from all servers.
+    let inlayHintRequests = 0;
+    const onInlayHintClick = (
+      { serverId }: InlayHintItem,
+      { location, command }: InlayHintLabelPart
+    ) => {
+      if (command) {
+        this.executeCommand(serverId, command);
+      } else if (location) {
+        gotoLocation(editor, uri, [location], this.showLocation);
+      }
+    };
+    const updateInlayHints = (cm: Editor) => {
+      const count = ++inlayHintRequests;
+      const gen = cm.changeGeneration();
+      const { from, to } = cm.getViewport();
+      const range = lspRange({ line: from, ch: 0 }, { line: to, ch: 0 });
+      const { type, parameter, other } = this.inlayHintOptions;
+      const showKind = (kind?: InlayHintKind) =>
+        kind === InlayHintKind.Type
+          ? type
+          : kind === InlayHintKind.Parameter
+          ? parameter
+          : other;
+      Promise.all(
+        this.documentServerIds(uri).map(async (serverId) => {
+          const hints = await this.connections[serverId]
+            .getInlayHints({
+              textDocument: { uri },
+              range,
+            })
+            .catch(() => null);
+          return (hints || [])
+            .filter((hint) => showKind(hint.kind))
+            .map((hint) => ({ serverId, hint }));
+        })
+      ).then((results) => {
+        // Skip if edited while waiting. The hints are updated after the edits.
+        if (count !== inlayHintRequests || !cm.isClean(gen)) return;
+
+        showInlayHints(cm, results.flat(), {
+          resolve: async ({ serverId, hint }) => {
+            const conn = this.connections[serverId];
+            return (conn && (await conn.resolveInlayHint(hint))) || hint;
+          },
+          onClick: onInlayHintClick,
+        });
+      });
+    };
+
+    // Update code lenses, folding ranges, document links, colors, semantic tokens
+    // and inlay hints once the changes settle.
+    updateCodeLenses(editor);
+    updateFoldingRanges(editor);
+    updateDocumentLinks(editor);
+    updateColors(editor);
+    updateSemanticTokens(editor);
+    updateInlayHints(editor);
+    const settledChangeStream = piped(
+      fromEditorEvent(editor, "changes"),
+      debounce(500)
+    );
+    const viewportChangeStream = piped(
+      fromEditorEvent(editor, "viewportChange"),
+      debounce(100)
+    );
+    disposers.push(
+      settledChangeStream(([cm]) => {
+        updateCodeLenses(cm);
+        updateFoldingRanges(cm);
+        updateDocumentLinks(cm);
+        updateColors(cm);
+        updateSemanticTokens(cm);
+        updateInlayHints(cm);
+      }),
+      viewportChangeStream(([cm]) => {
+        resolveCodeLenses(cm);
+        updateInlayHints(cm);
+        // Only the tokens in the viewport are known without the full document support.
+        if (tokensInViewport) updateSemanticTokens(cm);
+      }),
+      onEditorEvent(editor, "cmw:refreshCodeLenses", ([cm]) => {
+        updateCodeLenses(cm);
+      }),
+      onEditorEvent(editor, "cmw:refreshSemanticTokens", ([cm]) => {
+        updateSemanticTokens(cm);
+      }),
+      onEditorEvent(editor, "cmw:refreshInlayHints", ([cm]) => {
+        updateInlayHints(cm);
+      })
+    );
+
+    // Selection ranges are not merged. Use the first server with the ranges.
+    const getSelectionRanges = async (positions: Position[]) => {
+      for (const conn of getConns()) {
+        const ranges = await conn
+          .getSelectionRanges({
+            textDocument: { uri },
+            positions: positions.map(lspPosition),
+          })
+          .catch(() => null);
+        if (ranges) return ranges;
+      }
+      return null;
+    };
+
+    const formatSelection = (cm: Editor) => {
+      const from = cm.getCursor("from");
+      const to = cm.getCursor("to");
+      // Format the current line without selection
+      const range =
+        from.line === to.line && from.ch === to.ch
+          ? lspRange({ line: from.line, ch: 0 }, { line: to.line + 1, ch: 0 })
+          : lspRange(from, to);
+      this.format(uri, cm, range);
+    };
+
+    const rename = async (cm: Editor, pos: Position) => {
+      // Rename with the first server supporting it.
+      const serverId = this.documentServerIds(uri).find(
+        (id) => this.connections[id].supportsRename
+      );
+      if (!serverId) return;
+
+      const conn = this.connections[serverId];
+      const params = { textDocument: { uri }, position: lspPosition(pos) };
+      let range: Range | undefined;
+      let placeholder: string | undefined;
+      const showError = (e: unknown) => {
+        this.showMessage(
+          e instanceof Error ? e.message : String(e),
+          "error",
+          serverId
+        );
+      };
+      if (conn.supportsPrepareRename) {
+        let result;
+        try {
+          result = await conn.prepareRename(params);
+        } catch (e) {
+          // e.g., "You cannot rename this element"
+          showError(e);
+          return;
+        }
+        // The position is not valid for rename
+        if (!result) return;
+
+        if ("range" in result) {
+          range = result.range;
+          placeholder = result.placeholder;
+        } else if ("start" in result) {
+          range = result;
+        }
+      }
+      if (!range) {
+        const word = cm.findWordAt(pos);
+        range = lspRange(word.anchor, word.head);
+      }
+      if (placeholder === undefined) {
+        placeholder = cm.getRange(...cmRange(range));
+      }
+
+      showRenameInput(cm, range, placeholder, async (newName) => {
+        let edit;
+        try {
+          edit = await conn.getRename({ ...params, newName });
+        } catch (e) {
+          showError(e);
+          return;
+        }
+        if (!edit) return;
+
+        const { applied, failureReason } = await this.applyWorkspaceEdit(edit);
+        if (!applied && failureReason) {
+          this.showMessage(
+            `Rename failed: ${failureReason}`,
+            "error",
+            serverId
+          );
+        }
+      });
+    };
+
+    disposers.push(
+      onEditorEvent(editor, "contextmenu", ([cm, e]) => {
+        e.preventDefault();
+        const pos = cm.coordsChar({ left: e.pageX, top: e.pageY }, "page");
+        // TODO Disable items if the server doesn't support it.
+        showContextMenu(cm, e.pageX, e.pageY, [
+          [
+            {
+              label: "Go to Definition",
+              handler: () => {
+                gotoDefinition(cm, pos);
+              },
+            },
+            {
+              label: "Go to Type Definition",
+              handler: () => {
+                gotoTypeDefinition(cm, pos);
+              },
+            },
+            {
+              label: "Go to Implementations",
+              handler: () => {
+                gotoImplementations(cm, pos);
+              },
+            },
+            {
+              label: "Go to References",
               handler: () => {
                 gotoReferences(cm, pos);
               },
             },
+            {
+              label: "Peek Definition",
+              handler: () => {
+                getDefinitions(pos).then((locations) => {
+                  peekLocations(cm, pos, locations);
+                });
+              },
+            },
+            {
+              label: "Peek References",
+              handler: () => {
+                getReferences(pos).then((locations) => {
+                  peekLocations(cm, pos, locations);
+                });
+              },
+            },
             {
               label: "Go to Symbol...",
               handler: () => {
-                conn
-                  .getDocumentSymbol({
-                    textDocument: { uri },
-                  })
-                  .then((symbols) => {
-                    if (symbols) showSymbolSelector(cm, uri, symbols);
-                  });
+                gotoSymbol(cm);
+              },
+            },
+            {
+              label: "Go to Symbol in Workspace...",
+              handler: () => {
+                gotoWorkspaceSymbol(cm);
+              },
+            },
+          ],
+          [
+            {
+              label: "Show Incoming Calls",
+              handler: () => {
+                showCalls(cm, pos, "incoming");
+              },
+            },
+            {
+              label: "Show Outgoing Calls",
+              handler: () => {
+                showCalls(cm, pos, "outgoing");
+              },
+            },
+            {
+              label: "Show Type Hierarchy",
+              handler: () => {
+                showTypes(cm, pos);
+              },
+            },
+          ],
+          [
+            {
+              label: "Rename Symbol",
+              handler: () => {
+                rename(cm, pos);
+              },
+            },
+            {
+              label: "Format Document",
+              handler: () => {
+                this.format(uri, cm);
+              },
+            },
+            {
+              label: "Format Selection",
+              handler: () => {
+                formatSelection(cm);
+              },
+            },
+            {
+              label: "Code Actions...",
+              handler: () => {
+                getCodeActions(cm).then((items) => {
+                  showCodeActions(cm, e.pageX, e.pageY, items);
+                });
               },
             },
           ],
@@ -525,6 +1835,45 @@ export class Workspace {
       "Alt-G R": (cm: Editor) => {
         gotoReferences(cm, cm.getCursor());
       },
+      "Alt-F12": (cm: Editor) => {
+        const pos = cm.getCursor();
+        getDefinitions(pos).then((locations) => {
+          peekLocations(cm, pos, locations);
+        });
+      },
+      "Shift-F12": (cm: Editor) => {
+        const pos = cm.getCursor();
+        getReferences(pos).then((locations) => {
+          peekLocations(cm, pos, locations);
+        });
+      },
+      "Ctrl-T": (cm: Editor) => {
+        gotoWorkspaceSymbol(cm);
+      },
+      "Shift-Alt-H": (cm: Editor) => {
+        showCalls(cm, cm.getCursor(), "incoming");
+      },
+      F2: (cm: Editor) => {
+        rename(cm, cm.getCursor());
+      },
+      "Shift-Alt-Right": (cm: Editor) => {
+        expandSelection(cm, getSelectionRanges);
+      },
+      "Shift-Alt-Left": (cm: Editor) => {
+        shrinkSelection(cm);
+      },
+      "Shift-Alt-F": (cm: Editor) => {
+        this.format(uri, cm);
+      },
+      "Ctrl-K Ctrl-F": (cm: Editor) => {
+        formatSelection(cm);
+      },
+      "Ctrl-.": (cm: Editor) => {
+        getCodeActions(cm).then((items) => {
+          const { left, bottom } = cm.cursorCoords(true, "page");
+          showCodeActions(cm, left, bottom, items);
+        });
+      },
     });
     editor.addKeyMap(keyMap);
     disposers.push(() => {
@@ -541,20 +1890,32 @@ export class Workspace {
    */
   async closeTextDocument(path: string) {
     const uri = this.getDocumentUri(path);
-    const assoc = this.getLanguageAssociation(uri);
-    if (!assoc) return;
-    const serverId = assoc.languageServerIds[0];
-    if (!serverId) return;
-    const conn = this.connections[serverId];
-    if (!conn) return;
+    const conns = this.documentConnections(uri);
+    if (conns.length === 0) return;
 
     const editor = this.editors[uri];
     delete this.editors[uri];
     delete this.documentVersions[uri];
+    delete this.diagnostics[uri];
     this.removeEventHandlers(editor);
-    conn.textDocumentClosed({
-      textDocument: { uri },
-    });
+    for (const conn of conns) {
+      conn.textDocumentClosed({
+        textDocument: { uri },
+      });
+    }
+  }
+
+  /**
+   * Format the text document with the Language Server.
+   * The edits are applied as a single undo step.
+   * @param path - The file path relative to the project root.
+   */
+  async formatDocument(path: string) {
+    const uri = this.getDocumentUri(path);
+    const editor = this.editors[uri];
+    if (!editor) return;
+
+    await this.format(uri, editor);
   }
 
   /**
@@ -567,35 +1928,76 @@ export class Workspace {
   async saveTextDocument(path: string) {
     const uri = this.getDocumentUri(path);
     // TODO Support `willSave` with `reason` and `willSaveWaitUntil`
-    const assoc = this.getLanguageAssociation(uri);
-    if (!assoc) return;
-
-    const serverId = assoc.languageServerIds[0];
-    if (!serverId) return;
-
-    const conn = this.connections[serverId];
-    if (!conn) return;
+    const conns = this.documentConnections(uri);
+    if (conns.length === 0) return;
 
     const editor = this.editors[uri];
     if (!editor) return;
 
     // TODO Find Language Server supporting these to test
-    conn.textDocumentWillSave({
-      textDocument: { uri },
-      reason: TextDocumentSaveReason.Manual,
-    });
-    const edits = await conn.getEditsBeforeSave({
-      textDocument: { uri },
-      reason: TextDocumentSaveReason.Manual,
-    });
-    if (edits) {
-      applyEdits(editor, edits, "beforeSave");
+    for (const conn of conns) {
+      conn.textDocumentWillSave({
+        textDocument: { uri },
+        reason: TextDocumentSaveReason.Manual,
+      });
+    }
+    // Edits are requested one server at a time so that each server sees
+    // the changes made by the previous one.
+    for (const conn of conns) {
+      // Failing to provide the edits must not prevent saving.
+      const edits = await conn
+        .getEditsBeforeSave({
+          textDocument: { uri },
+          reason: TextDocumentSaveReason.Manual,
+        })
+        .catch(() => null);
+      if (edits && edits.length > 0) {
+        applyEdits(editor, edits, "beforeSave");
+        await delay(CHANGES_FRAME * 1.5);
+      }
+    }
+    if (this.formatOnSave && (await this.format(uri, editor))) {
       await delay(CHANGES_FRAME * 1.5);
     }
-    conn.textDocumentSaved({
-      textDocument: { uri },
-      text: editor.getValue(),
-    });
+    for (const conn of conns) {
+      conn.textDocumentSaved({
+        textDocument: { uri },
+        text: editor.getValue(),
+      });
+    }
+  }
+
+  /**
+   * Private method to format the document, or the range if given, with
+   * the first language server supporting it.
+   * The edits are discarded if the document changed while formatting.
+   *
+   * @param uri - The document URI.
+   * @param editor - The editor of the document.
+   * @param range - Optional range to format.
+   * @returns `true` if the document was formatted.
+   */
+  private async format(
+    uri: string,
+    editor: Editor,
+    range?: Range
+  ): Promise<boolean> {
+    const textDocument = { uri };
+    const options = getFormattingOptions(editor);
+    const generation = editor.changeGeneration();
+    for (const conn of this.documentConnections(uri)) {
+      // Try the next server if failed.
+      const edits = await (range
+        ? conn.getRangeFormatting({ textDocument, range, options })
+        : conn.getDocumentFormatting({ textDocument, options })
+      ).catch(() => null);
+      if (!edits) continue;
+      if (edits.length === 0 || !editor.isClean(generation)) return false;
+
+      applyEdits(editor, edits, "format");
+      return true;
+    }
+    return false;
   }
 
   private removeEventHandlers(editor: Editor) {
@@ -611,8 +2013,117 @@ export class Workspace {
     removeHighlights(editor);
     hideCompletions(editor);
     removeSignatureHelp(editor);
+    removeContextMenu(editor);
+    removeRenameInput(editor);
+    removeLightbulb(editor);
+    removeCodeLenses(editor);
+    removeFoldingRanges(editor);
+    removeSelectionRanges(editor);
+    removeDocumentLinks(editor);
+    removeColorSwatches(editor);
+    removeCallHierarchy(editor);
+    removeTypeHierarchy(editor);
+    removeSemanticTokens(editor);
+    removeInlayHints(editor);
+    removeLinkedEditingRanges(editor);
+    removePeek(editor);
   }
 
+  /**
+   * Private method to show a notification with the default UI.
+   * @returns Promise resolved with the title of the chosen action, or `null` if dismissed.
+   */
+  private showNotification(
+    message: string,
+    level: MessageLevel,
+    actions: string[]
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      const dispose = showNotification(message, level, actions, (action) => {
+        this.notificationDisposers.delete(dispose);
+        resolve(action);
+      });
+      this.notificationDisposers.add(dispose);
+    });
+  }
+
+  /**
+   * Private method to show the location in a different document.
+   * Asks the host to show the document, then highlights the range in its editor.
+   * Defined as a property to be passed around as a callback.
+   */
+  private showLocation: ShowLocation = (uri, range, selectionRange) => {
+    const show = this.showTextDocument;
+    const shown = show ? show(uri, range) : undefined;
+    Promise.resolve(shown)
+      .then((editor) => {
+        const cm = editor || this.editors[uri];
+        if (cm) revealRange(cm, selectionRange);
+      })
+      // Nothing to reveal if the host failed to show the document.
+      .catch(() => {});
+  };
+
+  /**
+   * Private method to get the content of the document.
+   * Open documents are read from their editors, and others from the host.
+   * Defined as a property to be passed around as a callback.
+   */
+  private getTextDocumentContentOf = async (
+    uri: string
+  ): Promise<string | null> => {
+    const editor = this.editors[uri];
+    if (editor) return editor.getValue();
+    if (!this.getTextDocumentContent) return null;
+
+    try {
+      return await this.getTextDocumentContent(uri);
+    } catch (_) {
+      return null;
+    }
+  };
+
+  /**
+   * Private method to get the CodeMirror mode for the document.
+   * Uses the mode of an open editor with the same language, falling back to the language ID.
+   * Defined as a property to be passed around as a callback.
+   */
+  private getModeOf = (uri: string): ModeOption => {
+    const editor = this.editors[uri];
+    if (editor) return editor.getOption("mode");
+
+    const languageId = this.getLanguageAssociation(uri)?.languageId;
+    if (!languageId) return null;
+
+    for (const [other, editor] of Object.entries(this.editors)) {
+      if (this.getLanguageAssociation(other)?.languageId === languageId) {
+        return editor.getOption("mode");
+      }
+    }
+    return languageId;
+  };
+
+  /**
+   * Private method to open the target of a document link.
+   * Files in the project are shown with `showLocation`, optionally at
+   * the position in the fragment (`#L<line>,<column>`, 1-based).
+   * Others are opened with `openExternal`.
+   */
+  private openLink = (target: string) => {
+    const [uri, fragment = ""] = target.split("#", 2);
+    if (!uri.startsWith(this.rootUri)) {
+      this.openExternal(target);
+      return;
+    }
+
+    const m = /^L(\d+)(?:,(\d+))?$/.exec(fragment);
+    const position = m
+      ? { line: +m[1] - 1, character: m[2] ? +m[2] - 1 : 0 }
+      : { line: 0, character: 0 };
+    const range = { start: position, end: position };
+    this.showLocation(uri, range, range);
+  };
+
   /**
    * Private method to connect to the language server if possible.
    * If existing connection exists, it'll be shared.
@@ -623,22 +2134,181 @@ export class Workspace {
     const existing = this.connections[serverId];
     if (existing) return existing;
 
+    const pending = this.pendingConnections[serverId];
+    if (pending) return pending;
+
+    const connecting = this.createConnection(serverId);
+    this.pendingConnections[serverId] = connecting;
+    try {
+      return await connecting;
+    } finally {
+      delete this.pendingConnections[serverId];
+    }
+  }
+
+  private async createConnection(
+    serverId: string
+  ): Promise<LspConnection | undefined> {
     const connectionString = await this.getConnectionString(serverId);
     if (!connectionString) return;
 
     // If we got some string that doesn't start with Web Socket protocol, assume
     // it's the worker's location.
-    const messageConn = /^wss?:\/\//.test(connectionString)
-      ? createWebSocketMessageConnection(new WebSocket(connectionString))
-      : createWorkerMessageConnection(new Worker(connectionString));
-    const conn = await messageConn.then(createLspConnection);
-    this.connections[serverId] = conn;
+    let messageConn: Promise<MessageConnection>;
+    if (/^wss?:\/\//.test(connectionString)) {
+      const socket = new WebSocket(connectionString);
+      this.transportDisposers[serverId] = () => socket.close();
+      messageConn = createWebSocketMessageConnection(socket);
+    } else {
+      const worker = new Worker(connectionString);
+      this.transportDisposers[serverId] = () => worker.terminate();
+      messageConn = createWorkerMessageConnection(worker);
+    }
+    let conn: LspConnection;
+    try {
+      conn = await messageConn.then(createLspConnection);
+      conn.listen();
+      await this.initializeConnection(serverId, conn);
+    } catch (e) {
+      this.disposeTransport(serverId);
+      throw e;
+    }
+    // Initialized after `dispose` gave up waiting and closed the transport.
+    if (this.disposed && !this.transportDisposers[serverId]) {
+      conn.dispose();
+      return;
+    }
+
     conn.onClose(() => {
+      // Ignore if closed by `disconnect`.
+      if (this.connections[serverId] !== conn) return;
+
       delete this.connections[serverId];
+      this.disposeTransport(serverId);
+      this.clearDiagnostics(serverId);
+      this.clearProgress(serverId);
+      const reconnecting = this.reconnect(serverId);
+      // Share the reconnecting connection with documents opened in the meantime.
+      this.pendingConnections[serverId] = reconnecting;
+      reconnecting.finally(() => {
+        if (this.pendingConnections[serverId] === reconnecting) {
+          delete this.pendingConnections[serverId];
+        }
+      });
     });
 
-    conn.listen();
+    conn.onConfiguration(({ items }) =>
+      items.map(({ scopeUri, section }) =>
+        getSettingsSection(this.resolveSettings(serverId, scopeUri), section)
+      )
+    );
+    conn.onWorkDoneProgress((token, value) => {
+      this.updateProgress(serverId, token, value);
+    });
+    conn.onShowMessage(({ type, message }) => {
+      this.showMessage(message, messageTypeName(type), serverId);
+    });
+    conn.onLogMessage(({ type, message }) => {
+      this.logMessage(message, messageTypeName(type), serverId);
+    });
+    conn.onCodeLensRefresh(() => {
+      for (const [uri, editor] of Object.entries(this.editors)) {
+        const assoc = this.getLanguageAssociation(uri);
+        if (assoc && assoc.languageServerIds.includes(serverId)) {
+          signal(editor, "cmw:refreshCodeLenses", editor);
+        }
+      }
+    });
+    conn.onSemanticTokensRefresh(() => {
+      for (const [uri, editor] of Object.entries(this.editors)) {
+        const assoc = this.getLanguageAssociation(uri);
+        if (assoc && assoc.languageServerIds.includes(serverId)) {
+          signal(editor, "cmw:refreshSemanticTokens", editor);
+        }
+      }
+    });
+    conn.onInlayHintRefresh(() => {
+      for (const [uri, editor] of Object.entries(this.editors)) {
+        const assoc = this.getLanguageAssociation(uri);
+        if (assoc && assoc.languageServerIds.includes(serverId)) {
+          signal(editor, "cmw:refreshInlayHints", editor);
+        }
+      }
+    });
+    conn.onApplyEdit(({ edit }) => this.applyWorkspaceEdit(edit));
+    conn.onShowMessageRequest(async ({ type, message, actions }) => {
+      const items = actions || [];
+      const title = await this.showMessageRequest(
+        message,
+        messageTypeName(type),
+        items.map((item) => item.title),
+        serverId
+      );
+      return items.find((item) => item.title === title) || null;
+    });
 
+    // Add event handlers to pass payload to matching open editors.
+    conn.onDiagnostics(({ uri, diagnostics }) => {
+      const editor = this.editors[uri];
+      if (!editor) return;
+
+      // Show diagnostics from all servers for the document.
+      const byServer = this.diagnostics[uri] || (this.diagnostics[uri] = {});
+      byServer[serverId] = diagnostics;
+      showDiagnostics(editor, Object.values(byServer).flat());
+    });
+
+    // Make the connection available after initialized.
+    this.connections[serverId] = conn;
+    // Open the documents opened before connecting, e.g., when reconnecting or
+    // when the server failed to connect at first.
+    for (const uri of Object.keys(this.editors)) {
+      const assoc = this.getLanguageAssociation(uri);
+      if (!assoc || !assoc.languageServerIds.includes(serverId)) continue;
+
+      conn.textDocumentOpened({
+        textDocument: {
+          uri,
+          languageId: assoc.languageId,
+          text: this.editors[uri].getValue(),
+          version: this.documentVersions[uri],
+        },
+      });
+    }
+    this.emit("connectionStateChange", serverId, "connected");
+    return conn;
+  }
+
+  /**
+   * Private method to send initialize request with the client capabilities
+   * and notify initialized.
+   *
+   * @param serverId - ID of the language server.
+   * @param conn - Connection to the language server.
+   */
+  private async initializeConnection(serverId: string, conn: LspConnection) {
+    // Declared separately to allow the additions from LSP 3.17.
+    const symbol: WorkspaceSymbolClientCapabilities = {
+      dynamicRegistration: true,
+      resolveSupport: { properties: ["location.range"] },
+    };
+    const typeHierarchy: TypeHierarchyClientCapabilities = {
+      dynamicRegistration: true,
+    };
+    const inlayHint: InlayHintClientCapabilities = {
+      dynamicRegistration: true,
+      resolveSupport: {
+        properties: [
+          "tooltip",
+          "label.tooltip",
+          "label.location",
+          "label.command",
+        ],
+      },
+    };
+    const inlayHintRefresh: InlayHintWorkspaceClientCapabilities = {
+      refreshSupport: true,
+    };
     await conn.initialize({
       capabilities: {
         textDocument: {
@@ -708,19 +2378,80 @@ export class Workspace {
             dynamicRegistration: true,
             hierarchicalDocumentSymbolSupport: true,
           },
-          // codeAction: {},
-          // codeLens: {},
-          // documentLink: {
-          //   dynamicRegistration: true,
-          //   tooltipSupport: false,
-          // },
-          // colorProvider: {},
-          // formatting: {},
-          // rangeFormatting: {},
-          // onTypeFormatting: {},
-          // rename: {},
-          // foldingRange: {},
-          // selectionRange: {},
+          codeAction: {
+            dynamicRegistration: true,
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: [
+                  CodeActionKind.Empty,
+                  CodeActionKind.QuickFix,
+                  CodeActionKind.Refactor,
+                  CodeActionKind.RefactorExtract,
+                  CodeActionKind.RefactorInline,
+                  CodeActionKind.RefactorRewrite,
+                  CodeActionKind.Source,
+                  CodeActionKind.SourceOrganizeImports,
+                  CodeActionKind.SourceFixAll,
+                ],
+              },
+            },
+            isPreferredSupport: true,
+            disabledSupport: true,
+            dataSupport: true,
+            resolveSupport: {
+              properties: ["edit"],
+            },
+          },
+          codeLens: {
+            dynamicRegistration: true,
+          },
+          documentLink: {
+            dynamicRegistration: true,
+            tooltipSupport: true,
+          },
+          colorProvider: {
+            dynamicRegistration: true,
+          },
+          formatting: {
+            dynamicRegistration: true,
+          },
+          rangeFormatting: {
+            dynamicRegistration: true,
+          },
+          onTypeFormatting: {
+            dynamicRegistration: true,
+          },
+          rename: {
+            dynamicRegistration: true,
+            prepareSupport: true,
+          },
+          foldingRange: {
+            dynamicRegistration: true,
+            lineFoldingOnly: false,
+          },
+          semanticTokens: {
+            dynamicRegistration: true,
+            requests: {
+              range: true,
+              full: { delta: true },
+            },
+            tokenTypes: Object.values(SemanticTokenTypes),
+            tokenModifiers: Object.values(SemanticTokenModifiers),
+            formats: [TokenFormat.Relative],
+            overlappingTokenSupport: false,
+            multilineTokenSupport: false,
+          },
+          selectionRange: {
+            dynamicRegistration: true,
+          },
+          callHierarchy: {
+            dynamicRegistration: true,
+          },
+          linkedEditingRange: {
+            dynamicRegistration: true,
+          },
+          typeHierarchy,
+          inlayHint,
           publishDiagnostics: {
             relatedInformation: true,
             tagSupport: {
@@ -733,25 +2464,442 @@ export class Workspace {
           didChangeConfiguration: {
             dynamicRegistration: true,
           },
+          configuration: true,
+          symbol,
+          executeCommand: {
+            dynamicRegistration: true,
+          },
+          codeLens: {
+            refreshSupport: true,
+          },
+          semanticTokens: {
+            refreshSupport: true,
+          },
+          inlayHint: inlayHintRefresh,
+          applyEdit: true,
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: this.applyResourceOperation
+              ? [
+                  ResourceOperationKind.Create,
+                  ResourceOperationKind.Rename,
+                  ResourceOperationKind.Delete,
+                ]
+              : [],
+            // Changes applied before the failed one are kept.
+            failureHandling: FailureHandlingKind.Abort,
+          },
+        },
+        window: {
+          workDoneProgress: true,
+          showMessage: {
+            messageActionItem: {
+              additionalPropertiesSupport: false,
+            },
+          },
         },
       },
       // clientInfo: { name: "codemirror-workspace" },
-      initializationOptions: null,
+      initializationOptions: this.initializationOptions[serverId] ?? null,
       processId: null,
       rootUri: this.rootUri,
       workspaceFolders: null,
     });
     conn.initialized();
-    // TODO Allow configuring Language Server
-    // conn.configurationChanged({ settings: {} });
+    const settings = this.resolveSettings(serverId);
+    if (settings != null) conn.configurationChanged({ settings });
+  }
 
-    // Add event handlers to pass payload to matching open editors.
-    conn.onDiagnostics(({ uri, diagnostics }) => {
+  /**
+   * Private method to apply the code action chosen by the user.
+   * The edit is resolved if necessary and applied before running the command.
+   *
+   * @param serverId - ID of the language server providing the action.
+   * @param action - The code action or command.
+   */
+  private async runCodeAction(serverId: string, action: CodeAction | Command) {
+    const conn = this.connections[serverId];
+    if (!conn) return;
+
+    if (typeof action.command === "string") {
+      await this.executeCommand(serverId, action as Command);
+      return;
+    }
+
+    let codeAction = action as CodeAction;
+    if (!codeAction.edit && !codeAction.command) {
+      try {
+        codeAction = (await conn.resolveCodeAction(codeAction)) || codeAction;
+      } catch (e) {
+        this.showMessage(
+          `Failed to resolve "${codeAction.title}": ${
+            e instanceof Error ? e.message : e
+          }`,
+          "error",
+          serverId
+        );
+        return;
+      }
+    }
+    if (codeAction.edit) {
+      const { applied, failureReason } = await this.applyWorkspaceEdit(
+        codeAction.edit
+      );
+      if (!applied) {
+        if (failureReason) {
+          this.showMessage(
+            `Failed to apply "${codeAction.title}": ${failureReason}`,
+            "error",
+            serverId
+          );
+        }
+        return;
+      }
+    }
+    if (codeAction.command) {
+      await this.executeCommand(serverId, codeAction.command);
+    }
+  }
+
+  /**
+   * Private method to execute the command with the client command handler
+   * registered by the host, or on the language server.
+   * @param serverId - ID of the language server providing the command.
+   * @param command - The command to execute.
+   */
+  private async executeCommand(
+    serverId: string,
+    { command, arguments: args }: Command
+  ) {
+    const conn = this.connections[serverId];
+    const handler = this.commands[command];
+    if (!handler && !conn) return;
+
+    try {
+      if (handler) {
+        await handler(...(args || []));
+      } else {
+        await conn.executeCommand({ command, arguments: args });
+      }
+    } catch (e) {
+      this.showMessage(
+        `Failed to execute "${command}": ${e instanceof Error ? e.message : e}`,
+        "error",
+        serverId
+      );
+    }
+  }
+
+  /**
+   * Private method to apply the workspace edit requested by the language server.
+   *
+   * Text edits are checked before applying anything, so that no document is
+   * changed if any of them is not open or has a different version.
+   * Resource operations and edits to documents that are not open are delegated
+   * to the host. If the host fails, the changes applied before are kept.
+   *
+   * @param edit - The workspace edit to apply.
+   */
+  private async applyWorkspaceEdit(
+    edit: WorkspaceEdit
+  ): Promise<ApplyWorkspaceEditResponse> {
+    const changes: (TextDocumentEdit | ResourceOperation)[] =
+      edit.documentChanges ||
+      Object.entries(edit.changes || {}).map(([uri, edits]) => ({
+        textDocument: { uri, version: null },
+        edits,
+      }));
+
+    // Documents created or renamed by the edit can't be checked in advance.
+    const created = new Set<string>();
+    for (let i = 0; i < changes.length; ++i) {
+      const change = changes[i];
+      if ("kind" in change) {
+        if (change.kind === "create") created.add(change.uri);
+        if (change.kind === "rename") created.add(change.newUri);
+        continue;
+      }
+
+      const { uri } = change.textDocument;
+      if (created.has(uri)) continue;
+      const failureReason = this.checkTextDocumentEdit(change);
+      if (failureReason) {
+        return { applied: false, failureReason, failedChange: i };
+      }
+    }
+
+    for (let i = 0; i < changes.length; ++i) {
+      const change = changes[i];
+      if ("kind" in change) {
+        if (!this.applyResourceOperation) {
+          return {
+            applied: false,
+            failureReason: `Resource operation "${change.kind}" is not supported`,
+            failedChange: i,
+          };
+        }
+        try {
+          await this.applyResourceOperation(change);
+        } catch (e) {
+          return {
+            applied: false,
+            failureReason: e instanceof Error ? e.message : String(e),
+            failedChange: i,
+          };
+        }
+        continue;
+      }
+
+      const failureReason = this.checkTextDocumentEdit(change);
+      if (failureReason) {
+        return { applied: false, failureReason, failedChange: i };
+      }
+      const { uri } = change.textDocument;
       const editor = this.editors[uri];
-      if (editor) showDiagnostics(editor, diagnostics);
-    });
+      if (editor) {
+        applyEdits(editor, change.edits, "workspaceEdit");
+        continue;
+      }
 
-    return conn;
+      if (!this.applyTextEdits) {
+        return {
+          applied: false,
+          failureReason: `Document "${uri}" is not open`,
+          failedChange: i,
+        };
+      }
+      try {
+        await this.applyTextEdits(uri, change.edits);
+      } catch (e) {
+        return {
+          applied: false,
+          failureReason: e instanceof Error ? e.message : String(e),
+          failedChange: i,
+        };
+      }
+    }
+    return { applied: true };
+  }
+
+  /**
+   * Private method to check if the text document edit can be applied.
+   * Returns the reason if it can't be applied.
+   *
+   * @param change - The text document edit.
+   */
+  private checkTextDocumentEdit({
+    textDocument: { uri, version },
+  }: TextDocumentEdit): string | undefined {
+    if (!this.editors[uri]) {
+      // Edits to documents that are not open are delegated to the host.
+      return this.applyTextEdits ? undefined : `Document "${uri}" is not open`;
+    }
+
+    const current = this.documentVersions[uri];
+    if (version !== null && version !== current) {
+      return `Document "${uri}" has version ${current}, expected ${version}`;
+    }
+  }
+
+  /**
+   * Private method to get the settings for the language server.
+   * @param serverId - ID of the language server.
+   * @param scopeUri - Optional URI of the resource to get the settings for.
+   */
+  private resolveSettings(serverId: string, scopeUri?: string): any {
+    return serverId in this.settings
+      ? this.settings[serverId]
+      : this.getSettings(serverId, scopeUri);
+  }
+
+  /**
+   * Private method to reconnect to the language server after the connection was lost.
+   * Retries with exponential backoff, and opens the documents again once connected.
+   *
+   * @param serverId - ID of the language server.
+   */
+  private async reconnect(
+    serverId: string
+  ): Promise<LspConnection | undefined> {
+    const {
+      maxAttempts,
+      initialDelay,
+      maxDelay,
+      multiplier,
+    } = this.reconnectOptions;
+    for (let attempt = 0; attempt < maxAttempts; ++attempt) {
+      this.emit("connectionStateChange", serverId, "reconnecting");
+      await Promise.race([
+        delay(Math.min(initialDelay * multiplier ** attempt, maxDelay)),
+        this.whenDisposed,
+      ]);
+      if (this.disposed) break;
+
+      let conn: LspConnection | undefined;
+      try {
+        conn = await this.createConnection(serverId);
+      } catch (e) {
+        continue;
+      }
+      if (!conn) break;
+
+      // The documents are opened again by `createConnection`.
+      return conn;
+    }
+
+    this.emit("connectionStateChange", serverId, "disconnected");
+    return undefined;
+  }
+
+  /**
+   * Private method to shut down the language server and close the connection.
+   * Waits for the response to shutdown request at most `SHUTDOWN_TIMEOUT` ms.
+   *
+   * @param serverId - ID of the language server.
+   */
+  private async disconnect(serverId: string) {
+    const conn = this.connections[serverId];
+    if (conn) {
+      delete this.connections[serverId];
+      // The server might have exited already. Exit anyway.
+      await Promise.race([
+        conn.shutdown().catch(() => {}),
+        delay(SHUTDOWN_TIMEOUT),
+      ]);
+      conn.exit();
+      conn.dispose();
+      this.clearProgress(serverId);
+      this.emit("connectionStateChange", serverId, "disconnected");
+    }
+    this.disposeTransport(serverId);
+  }
+
+  /**
+   * Private method to close the WebSocket or terminate the Worker.
+   * @param serverId - ID of the language server.
+   */
+  private disposeTransport(serverId: string) {
+    const disposeTransport = this.transportDisposers[serverId];
+    if (disposeTransport) {
+      delete this.transportDisposers[serverId];
+      disposeTransport();
+    }
+  }
+
+  /**
+   * Private method to remove diagnostics from the language server.
+   * @param serverId - ID of the language server.
+   */
+  private clearDiagnostics(serverId: string) {
+    for (const uri of Object.keys(this.diagnostics)) {
+      const byServer = this.diagnostics[uri];
+      if (!byServer[serverId]) continue;
+
+      delete byServer[serverId];
+      const editor = this.editors[uri];
+      if (editor) showDiagnostics(editor, Object.values(byServer).flat());
+    }
+  }
+
+  /**
+   * Private method to update the state of the work done progress and emit `progress` event.
+   * @param serverId - ID of the language server.
+   * @param token - The progress token.
+   * @param value - The progress notification.
+   */
+  private updateProgress(
+    serverId: string,
+    token: ProgressToken,
+    value: WorkDoneProgressBegin | WorkDoneProgressReport | WorkDoneProgressEnd
+  ) {
+    const states =
+      this.progress[serverId] || (this.progress[serverId] = new Map());
+    const prev = states.get(token);
+    let state: ProgressState;
+    if (value.kind === "begin") {
+      state = {
+        title: value.title,
+        message: value.message,
+        percentage: value.percentage,
+        cancellable: !!value.cancellable,
+        done: false,
+      };
+    } else if (!prev) {
+      // Ignore progress without begin
+      return;
+    } else if (value.kind === "report") {
+      state = {
+        ...prev,
+        message: value.message ?? prev.message,
+        percentage: value.percentage ?? prev.percentage,
+        cancellable: value.cancellable ?? prev.cancellable,
+      };
+    } else {
+      state = {
+        ...prev,
+        message: value.message ?? prev.message,
+        cancellable: false,
+        done: true,
+      };
+    }
+
+    if (state.done) {
+      states.delete(token);
+    } else {
+      states.set(token, state);
+    }
+    this.emit("progress", serverId, token, state);
+  }
+
+  /**
+   * Private method to end all work done progress of the language server.
+   * @param serverId - ID of the language server.
+   */
+  private clearProgress(serverId: string) {
+    const states = this.progress[serverId];
+    if (!states) return;
+
+    delete this.progress[serverId];
+    for (const [token, state] of states) {
+      this.emit("progress", serverId, token, {
+        ...state,
+        cancellable: false,
+        done: true,
+      });
+    }
+  }
+
+  /**
+   * Private method to call the handlers for the workspace event.
+   * @param type - Event type.
+   * @param args - Event parameters.
+   */
+  private emit<K extends keyof WorkspaceEventMap>(
+    type: K,
+    ...args: WorkspaceEventMap[K]
+  ) {
+    const handlers = this.eventHandlers[type];
+    if (!handlers) return;
+    for (const handler of handlers.slice()) handler(...args);
+  }
+
+  /**
+   * Private method to get the connections to Language Servers associated with the document.
+   * @param uri - The document URI.
+   */
+  private documentConnections(uri: string): LspConnection[] {
+    return this.documentServerIds(uri).map((id) => this.connections[id]);
+  }
+
+  /**
+   * Private method to get the IDs of the connected Language Servers associated with the document.
+   * @param uri - The document URI.
+   */
+  private documentServerIds(uri: string): string[] {
+    const assoc = this.getLanguageAssociation(uri);
+    if (!assoc) return [];
+
+    return assoc.languageServerIds.filter((id) => !!this.connections[id]);
   }
 
   private getDocumentUri(path: string) {
@@ -1,21 +1,34 @@
 import type {
+  CancellationToken,
   Message,
   MessageConnection,
   NotificationHandler,
+  ProgressToken,
+  RequestHandler,
 } from "vscode-jsonrpc";
 import type {
   InitializeParams,
   ProtocolNotificationType,
   ProtocolRequestType,
-  ServerCapabilities,
+  WorkDoneProgressBegin,
+  WorkDoneProgressEnd,
+  WorkDoneProgressReport,
 } from "vscode-languageserver-protocol";
 
 import {
+  ApplyWorkspaceEditRequest,
+  CallHierarchyIncomingCallsRequest,
+  CallHierarchyOutgoingCallsRequest,
+  CallHierarchyPrepareRequest,
   CodeActionRequest,
+  CodeActionResolveRequest,
+  CodeLensRefreshRequest,
   CodeLensRequest,
   CodeLensResolveRequest,
+  ColorPresentationRequest,
   CompletionRequest,
   CompletionResolveRequest,
+  ConfigurationRequest,
   DeclarationRequest,
   DefinitionRequest,
   DidChangeConfigurationNotification,
@@ -24,32 +37,58 @@ import {
   DidOpenTextDocumentNotification,
   DidSaveTextDocumentNotification,
   DocumentColorRequest,
+  DocumentFormattingRequest,
   DocumentHighlightRequest,
   DocumentLinkRequest,
   DocumentLinkResolveRequest,
+  DocumentOnTypeFormattingRequest,
+  DocumentRangeFormattingRequest,
   DocumentSymbolRequest,
+  ExecuteCommandRequest,
   ExitNotification,
   FoldingRangeRequest,
   HoverRequest,
   ImplementationRequest,
   InitializeRequest,
   InitializedNotification,
+  LinkedEditingRangeRequest,
   LogMessageNotification,
+  PrepareRenameRequest,
   PublishDiagnosticsNotification,
   ReferencesRequest,
   RegistrationRequest,
+  RenameRequest,
   SelectionRangeRequest,
+  SemanticTokensDeltaRequest,
+  SemanticTokensRangeRequest,
+  SemanticTokensRefreshRequest,
+  SemanticTokensRequest,
   ShowMessageNotification,
+  ShowMessageRequest,
   ShutdownRequest,
   SignatureHelpRequest,
   TextDocumentSyncKind,
   TypeDefinitionRequest,
   UnregistrationRequest,
-  WorkspaceSymbolRequest,
   WillSaveTextDocumentNotification,
   WillSaveTextDocumentWaitUntilRequest,
+  WorkDoneProgress,
+  WorkDoneProgressCancelNotification,
+  WorkDoneProgressCreateRequest,
 } from "vscode-languageserver-protocol";
 
+import type { ServerCapabilities } from "./protocol";
+import {
+  InlayHintRefreshRequest,
+  InlayHintRequest,
+  InlayHintResolveRequest,
+  TypeHierarchyPrepareRequest,
+  TypeHierarchySubtypesRequest,
+  TypeHierarchySupertypesRequest,
+  WorkspaceSymbolRequest,
+  WorkspaceSymbolResolveRequest,
+} from "./protocol";
+
 export type LspConnection = ReturnType<typeof createLspConnection>;
 
 /**
@@ -72,11 +111,27 @@ export const createLspConnection = (conn: MessageConnection) => {
     }
   });
 
+  // Handle work done progress initiated by the server
+  const progressHandlers: WorkDoneProgressHandler[] = [];
+  conn.onRequest(WorkDoneProgressCreateRequest.type, ({ token }) => {
+    const disposable = conn.onProgress(
+      WorkDoneProgress.type,
+      token,
+      (value) => {
+        for (const handler of progressHandlers) handler(token, value);
+        if (value.kind === "end") disposable.dispose();
+      }
+    );
+  });
+
   const maybeReq = <T extends ProtocolRequestType<any, any, any, any, any>>(
     cond: () => boolean,
     type: T
-  ) => (params: Params<T>): Promise<Result<T> | null> =>
-    cond() ? conn.sendRequest(type, params) : Promise.resolve(null);
+  ) => (
+    params: Params<T>,
+    token?: CancellationToken
+  ): Promise<Result<T> | null> =>
+    cond() ? conn.sendRequest(type, params, token) : Promise.resolve(null);
 
   const maybeNotify = <T extends ProtocolNotificationType<any, any>>(
     cond: () => boolean,
@@ -94,6 +149,17 @@ export const createLspConnection = (conn: MessageConnection) => {
     conn.onNotification(type, handler);
   };
 
+  const onRequest = <T extends ProtocolRequestType<any, any, any, any, any>>(
+    type: T
+  ) => (handler: RequestHandler<Params<T>, Result<T>, ErrorData<T>>): void => {
+    conn.onRequest(type, handler);
+  };
+
+  const hasPrepareRename = () => {
+    const c = capabilities.renameProvider;
+    return typeof c === "object" && !!c.prepareProvider;
+  };
+
   const hasTextDocumentWillSave = () => {
     const c = capabilities.textDocumentSync ?? TextDocumentSyncKind.None;
     return typeof c !== "number" && !!c.willSave;
@@ -146,6 +212,21 @@ export const createLspConnection = (conn: MessageConnection) => {
      * The handler should display the message in the user interface.
      */
     onShowMessage: onNotification(ShowMessageNotification.type),
+    /**
+     * Register a handler for showMessage request.
+     * The handler should display the message with the actions, and
+     * return the selected action or `null` if none was selected.
+     */
+    onShowMessageRequest: onRequest(ShowMessageRequest.type),
+    /**
+     * Register a handler for work done progress created by the server.
+     * The handler is called on each `begin`, `report` and `end`.
+     */
+    onWorkDoneProgress: (handler: WorkDoneProgressHandler): void => {
+      progressHandlers.push(handler);
+    },
+    /** Notify that the user cancelled the work done progress. */
+    cancelWorkDoneProgress: notifier(WorkDoneProgressCancelNotification.type),
     /** Register a handler for diagnostics notification. */
     onDiagnostics: onNotification(PublishDiagnosticsNotification.type),
 
@@ -198,6 +279,37 @@ export const createLspConnection = (conn: MessageConnection) => {
      * Notify that the client's configuration changed.
      */
     configurationChanged: notifier(DidChangeConfigurationNotification.type),
+    /**
+     * Register a handler for applyEdit request.
+     * The handler should apply the workspace edit and return the result.
+     */
+    onApplyEdit: onRequest(ApplyWorkspaceEditRequest.type),
+    /**
+     * Register a handler for code lens refresh request.
+     * The handler should request the code lenses of the open documents again.
+     */
+    onCodeLensRefresh: (handler: () => void): void => {
+      conn.onRequest(CodeLensRefreshRequest.type, handler);
+    },
+    /**
+     * Register a handler for semantic tokens refresh request.
+     * The handler should request the semantic tokens of the open documents again.
+     */
+    onSemanticTokensRefresh: (handler: () => void): void => {
+      conn.onRequest(SemanticTokensRefreshRequest.type, handler);
+    },
+    /**
+     * Register a handler for inlay hint refresh request.
+     * The handler should request the inlay hints of the open documents again.
+     */
+    onInlayHintRefresh: (handler: () => void): void => {
+      conn.onRequest(InlayHintRefreshRequest.type, handler);
+    },
+    /**
+     * Register a handler for configuration request.
+     * The handler should return the settings for each of the items in order.
+     */
+    onConfiguration: onRequest(ConfigurationRequest.type),
 
     /** If supported, request completion at a given text document position. */
     getCompletion: maybeReq(
@@ -249,6 +361,13 @@ export const createLspConnection = (conn: MessageConnection) => {
       () => !!capabilities.documentHighlightProvider,
       DocumentHighlightRequest.type
     ),
+    /** If supported, test and prepare the rename at a given text document position. */
+    prepareRename: maybeReq(hasPrepareRename, PrepareRenameRequest.type),
+    /** If supported, get the workspace edit to rename the symbol at a given text document position. */
+    getRename: maybeReq(
+      () => !!capabilities.renameProvider,
+      RenameRequest.type
+    ),
     /** If supported, list all symbols found in a given text document. */
     getDocumentSymbol: maybeReq(
       () => !!capabilities.documentSymbolProvider,
@@ -259,6 +378,16 @@ export const createLspConnection = (conn: MessageConnection) => {
       () => !!capabilities.codeActionProvider,
       CodeActionRequest.type
     ),
+    /** If supported, resolve additional information for a given code action. */
+    resolveCodeAction: maybeReq(() => {
+      const c = capabilities.codeActionProvider;
+      return typeof c === "object" && !!c.resolveProvider;
+    }, CodeActionResolveRequest.type),
+    /** If supported, execute a command on the server. */
+    executeCommand: maybeReq(
+      () => !!capabilities.executeCommandProvider,
+      ExecuteCommandRequest.type
+    ),
     /** If supported, get code lens for the given text document. */
     getCodeLens: maybeReq(
       () => !!capabilities.codeLensProvider,
@@ -284,6 +413,26 @@ export const createLspConnection = (conn: MessageConnection) => {
       () => !!capabilities.colorProvider,
       DocumentColorRequest.type
     ),
+    /** If supported, get the ways to present a color at the range. */
+    getColorPresentation: maybeReq(
+      () => !!capabilities.colorProvider,
+      ColorPresentationRequest.type
+    ),
+    /** If supported, get text edits to format the whole document. */
+    getDocumentFormatting: maybeReq(
+      () => !!capabilities.documentFormattingProvider,
+      DocumentFormattingRequest.type
+    ),
+    /** If supported, get text edits to format a range in the document. */
+    getRangeFormatting: maybeReq(
+      () => !!capabilities.documentRangeFormattingProvider,
+      DocumentRangeFormattingRequest.type
+    ),
+    /** If supported, get text edits to format the document after typing a trigger character. */
+    getOnTypeFormatting: maybeReq(
+      () => !!capabilities.documentOnTypeFormattingProvider,
+      DocumentOnTypeFormattingRequest.type
+    ),
     /** If supported, get folding ranges in a document. */
     getFoldingRanges: maybeReq(
       () => !!capabilities.foldingRangeProvider,
@@ -294,11 +443,76 @@ export const createLspConnection = (conn: MessageConnection) => {
       () => !!capabilities.selectionRangeProvider,
       SelectionRangeRequest.type
     ),
+    /** If supported, get the semantic tokens of the whole document. */
+    getSemanticTokens: maybeReq(
+      () => !!capabilities.semanticTokensProvider?.full,
+      SemanticTokensRequest.type
+    ),
+    /** If supported, get the changes to the semantic tokens since the previous result. */
+    getSemanticTokensDelta: maybeReq(() => {
+      const c = capabilities.semanticTokensProvider?.full;
+      return typeof c === "object" && !!c.delta;
+    }, SemanticTokensDeltaRequest.type),
+    /** If supported, get the semantic tokens in the range. */
+    getSemanticTokensRange: maybeReq(
+      () => !!capabilities.semanticTokensProvider?.range,
+      SemanticTokensRangeRequest.type
+    ),
+    /** If supported, get the ranges to edit together with the range at the position. */
+    getLinkedEditingRanges: maybeReq(
+      () => !!capabilities.linkedEditingRangeProvider,
+      LinkedEditingRangeRequest.type
+    ),
+    /** If supported, get the inlay hints in the range. */
+    getInlayHints: maybeReq(
+      () => !!capabilities.inlayHintProvider,
+      InlayHintRequest.type
+    ),
+    /** If supported, resolve the tooltip and the label parts of the inlay hint. */
+    resolveInlayHint: maybeReq(() => {
+      const c = capabilities.inlayHintProvider;
+      return typeof c === "object" && !!c.resolveProvider;
+    }, InlayHintResolveRequest.type),
+    /** If supported, get the call hierarchy items at the position. */
+    prepareCallHierarchy: maybeReq(
+      () => !!capabilities.callHierarchyProvider,
+      CallHierarchyPrepareRequest.type
+    ),
+    /** If supported, get the callers of the call hierarchy item. */
+    getIncomingCalls: maybeReq(
+      () => !!capabilities.callHierarchyProvider,
+      CallHierarchyIncomingCallsRequest.type
+    ),
+    /** If supported, get the callees of the call hierarchy item. */
+    getOutgoingCalls: maybeReq(
+      () => !!capabilities.callHierarchyProvider,
+      CallHierarchyOutgoingCallsRequest.type
+    ),
+    /** If supported, get the type hierarchy items at the position. */
+    prepareTypeHierarchy: maybeReq(
+      () => !!capabilities.typeHierarchyProvider,
+      TypeHierarchyPrepareRequest.type
+    ),
+    /** If supported, get the supertypes of the type hierarchy item. */
+    getSupertypes: maybeReq(
+      () => !!capabilities.typeHierarchyProvider,
+      TypeHierarchySupertypesRequest.type
+    ),
+    /** If supported, get the subtypes of the type hierarchy item. */
+    getSubtypes: maybeReq(
+      () => !!capabilities.typeHierarchyProvider,
+      TypeHierarchySubtypesRequest.type
+    ),
     /** If supported, list project-wide symbols matching the query string in params. */
     getWorkspaceSymbols: maybeReq(
       () => !!capabilities.workspaceSymbolProvider,
       WorkspaceSymbolRequest.type
     ),
+    /** If supported, resolve the range of the workspace symbol's location. */
+    resolveWorkspaceSymbol: maybeReq(() => {
+      const c = capabilities.workspaceSymbolProvider;
+      return typeof c === "object" && !!c.resolveProvider;
+    }, WorkspaceSymbolResolveRequest.type),
 
     get syncsIncrementally() {
       let syncCapability =
@@ -308,6 +522,26 @@ export const createLspConnection = (conn: MessageConnection) => {
       }
       return syncCapability === TextDocumentSyncKind.Incremental;
     },
+    get supportsRename() {
+      return !!capabilities.renameProvider;
+    },
+    get supportsPrepareRename() {
+      return hasPrepareRename();
+    },
+    get onTypeFormattingTriggers() {
+      const c = capabilities.documentOnTypeFormattingProvider;
+      return c
+        ? [c.firstTriggerCharacter, ...(c.moreTriggerCharacter || [])]
+        : [];
+    },
+    /** Legend to decode the semantic tokens with, if supported. */
+    get semanticTokensLegend() {
+      return capabilities.semanticTokensProvider?.legend;
+    },
+    get supportsSemanticTokensDelta() {
+      const c = capabilities.semanticTokensProvider?.full;
+      return typeof c === "object" && !!c.delta;
+    },
     get completionTriggers() {
       return capabilities.completionProvider?.triggerCharacters || [];
     },
@@ -320,29 +554,39 @@ export const createLspConnection = (conn: MessageConnection) => {
   };
 };
 
+type WorkDoneProgressHandler = (
+  token: ProgressToken,
+  value: WorkDoneProgressBegin | WorkDoneProgressReport | WorkDoneProgressEnd
+) => void;
+
 type Provider = keyof ServerCapabilities;
 const METHOD_TO_PROVIDER: { [m: string]: Provider } = {
   "textDocument/codeAction": "codeActionProvider",
   "textDocument/codeLens": "codeLensProvider",
-  "textDocument/color": "colorProvider",
   "textDocument/completion": "completionProvider",
   "textDocument/declaration": "declarationProvider",
   "textDocument/definition": "definitionProvider",
-  "textDocument/documentFormatting": "documentFormattingProvider",
+  "textDocument/documentColor": "colorProvider",
   "textDocument/documentHighlight": "documentHighlightProvider",
   "textDocument/documentLink": "documentLinkProvider",
-  "textDocument/documentOnTypeFormatting": "documentOnTypeFormattingProvider",
-  "textDocument/documentRangeFormatting": "documentRangeFormattingProvider",
   "textDocument/documentSymbol": "documentSymbolProvider",
-  "textDocument/executeCommand": "executeCommandProvider",
   "textDocument/foldingRange": "foldingRangeProvider",
+  "textDocument/formatting": "documentFormattingProvider",
   "textDocument/hover": "hoverProvider",
   "textDocument/implementation": "implementationProvider",
+  "textDocument/inlayHint": "inlayHintProvider",
+  "textDocument/linkedEditingRange": "linkedEditingRangeProvider",
+  "textDocument/onTypeFormatting": "documentOnTypeFormattingProvider",
+  "textDocument/prepareCallHierarchy": "callHierarchyProvider",
+  "textDocument/prepareTypeHierarchy": "typeHierarchyProvider",
+  "textDocument/rangeFormatting": "documentRangeFormattingProvider",
   "textDocument/references": "referencesProvider",
   "textDocument/rename": "renameProvider",
+  "textDocument/semanticTokens": "semanticTokensProvider",
   "textDocument/signatureHelp": "signatureHelpProvider",
   "textDocument/typeDefinition": "typeDefinitionProvider",
-  "textDocument/workspaceSymbol": "workspaceSymbolProvider",
+  "workspace/executeCommand": "executeCommandProvider",
+  "workspace/symbol": "workspaceSymbolProvider",
 };
 
 type Params<T> = T extends ProtocolRequestType<infer P, any, any, any, any>
@@ -353,3 +597,6 @@ type Params<T> = T extends ProtocolRequestType<infer P, any, any, any, any>
 type Result<T> = T extends ProtocolRequestType<any, infer R, any, any, any>
   ? R
   : never;
+type ErrorData<T> = T extends ProtocolRequestType<any, any, any, infer E, any>
+  ? E
+  : never;
@@ -1 +1,32 @@
 export { createLspConnection, LspConnection } from "./connection";
+export type {
+  InlayHint,
+  InlayHintClientCapabilities,
+  InlayHintLabelPart,
+  InlayHintOptions,
+  InlayHintParams,
+  InlayHintRegistrationOptions,
+  InlayHintWorkspaceClientCapabilities,
+  ServerCapabilities,
+  TypeHierarchyClientCapabilities,
+  TypeHierarchyItem,
+  TypeHierarchyOptions,
+  TypeHierarchyPrepareParams,
+  TypeHierarchyRegistrationOptions,
+  TypeHierarchySubtypesParams,
+  TypeHierarchySupertypesParams,
+  WorkspaceSymbol,
+  WorkspaceSymbolClientCapabilities,
+  WorkspaceSymbolOptions,
+} from "./protocol";
+export {
+  InlayHintKind,
+  InlayHintRefreshRequest,
+  InlayHintRequest,
+  InlayHintResolveRequest,
+  TypeHierarchyPrepareRequest,
+  TypeHierarchySubtypesRequest,
+  TypeHierarchySupertypesRequest,
+  WorkspaceSymbolRequest,
+  WorkspaceSymbolResolveRequest,
+} from "./protocol";
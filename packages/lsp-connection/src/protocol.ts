@@ -0,0 +1,222 @@
+// Additions from LSP 3.17 not in `vscode-languageserver-protocol@3.16`.
+import type {
+  Command,
+  Location,
+  MarkupContent,
+  PartialResultParams,
+  Position,
+  Range,
+  ServerCapabilities as ServerCapabilities316,
+  StaticRegistrationOptions,
+  SymbolInformation,
+  SymbolKind,
+  SymbolTag,
+  TextDocumentIdentifier,
+  TextDocumentPositionParams,
+  TextDocumentRegistrationOptions,
+  TextEdit,
+  WorkDoneProgressOptions,
+  WorkDoneProgressParams,
+  WorkspaceSymbolClientCapabilities as WorkspaceSymbolClientCapabilities316,
+  WorkspaceSymbolOptions as WorkspaceSymbolOptions316,
+  WorkspaceSymbolParams,
+  WorkspaceSymbolRegistrationOptions,
+} from "vscode-languageserver-protocol";
+import {
+  ProtocolRequestType,
+  ProtocolRequestType0,
+} from "vscode-languageserver-protocol";
+
+/**
+ * Symbol in the workspace. The range of the location can be omitted
+ * until resolved with `workspaceSymbol/resolve`.
+ */
+export interface WorkspaceSymbol
+  extends Omit<SymbolInformation, "location" | "deprecated"> {
+  location: Location | { uri: string };
+  data?: unknown;
+}
+
+export interface WorkspaceSymbolClientCapabilities
+  extends WorkspaceSymbolClientCapabilities316 {
+  /** Properties the client can resolve lazily. */
+  resolveSupport?: { properties: string[] };
+}
+
+export interface WorkspaceSymbolOptions extends WorkspaceSymbolOptions316 {
+  resolveProvider?: boolean;
+}
+
+/**
+ * Server capabilities including the providers from LSP 3.17.
+ */
+export interface ServerCapabilities extends ServerCapabilities316 {
+  workspaceSymbolProvider?: boolean | WorkspaceSymbolOptions;
+  typeHierarchyProvider?:
+    | boolean
+    | TypeHierarchyOptions
+    | TypeHierarchyRegistrationOptions;
+  inlayHintProvider?: boolean | InlayHintOptions | InlayHintRegistrationOptions;
+}
+
+export namespace WorkspaceSymbolRequest {
+  export const type = new ProtocolRequestType<
+    WorkspaceSymbolParams,
+    (SymbolInformation | WorkspaceSymbol)[] | null,
+    (SymbolInformation | WorkspaceSymbol)[],
+    void,
+    WorkspaceSymbolRegistrationOptions
+  >("workspace/symbol");
+}
+
+export namespace WorkspaceSymbolResolveRequest {
+  export const type = new ProtocolRequestType<
+    WorkspaceSymbol,
+    WorkspaceSymbol,
+    never,
+    void,
+    void
+  >("workspaceSymbol/resolve");
+}
+
+export interface TypeHierarchyItem {
+  name: string;
+  kind: SymbolKind;
+  tags?: SymbolTag[];
+  detail?: string;
+  uri: string;
+  range: Range;
+  selectionRange: Range;
+  data?: unknown;
+}
+
+export interface TypeHierarchyClientCapabilities {
+  dynamicRegistration?: boolean;
+}
+
+export type TypeHierarchyOptions = WorkDoneProgressOptions;
+
+export interface TypeHierarchyRegistrationOptions
+  extends TextDocumentRegistrationOptions,
+    TypeHierarchyOptions,
+    StaticRegistrationOptions {}
+
+export interface TypeHierarchyPrepareParams
+  extends TextDocumentPositionParams,
+    WorkDoneProgressParams {}
+
+export interface TypeHierarchySupertypesParams
+  extends WorkDoneProgressParams,
+    PartialResultParams {
+  item: TypeHierarchyItem;
+}
+
+export interface TypeHierarchySubtypesParams
+  extends WorkDoneProgressParams,
+    PartialResultParams {
+  item: TypeHierarchyItem;
+}
+
+export namespace TypeHierarchyPrepareRequest {
+  export const type = new ProtocolRequestType<
+    TypeHierarchyPrepareParams,
+    TypeHierarchyItem[] | null,
+    never,
+    void,
+    TypeHierarchyRegistrationOptions
+  >("textDocument/prepareTypeHierarchy");
+}
+
+export namespace TypeHierarchySupertypesRequest {
+  export const type = new ProtocolRequestType<
+    TypeHierarchySupertypesParams,
+    TypeHierarchyItem[] | null,
+    TypeHierarchyItem[],
+    void,
+    void
+  >("typeHierarchy/supertypes");
+}
+
+export namespace TypeHierarchySubtypesRequest {
+  export const type = new ProtocolRequestType<
+    TypeHierarchySubtypesParams,
+    TypeHierarchyItem[] | null,
+    TypeHierarchyItem[],
+    void,
+    void
+  >("typeHierarchy/subtypes");
+}
+
+export namespace InlayHintKind {
+  export const Type = 1;
+  export const Parameter = 2;
+}
+export type InlayHintKind = 1 | 2;
+
+export interface InlayHintLabelPart {
+  value: string;
+  tooltip?: string | MarkupContent;
+  location?: Location;
+  command?: Command;
+}
+
+export interface InlayHint {
+  position: Position;
+  label: string | InlayHintLabelPart[];
+  kind?: InlayHintKind;
+  textEdits?: TextEdit[];
+  tooltip?: string | MarkupContent;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+  data?: unknown;
+}
+
+export interface InlayHintClientCapabilities {
+  dynamicRegistration?: boolean;
+  /** Properties the client can resolve lazily. */
+  resolveSupport?: { properties: string[] };
+}
+
+export interface InlayHintWorkspaceClientCapabilities {
+  refreshSupport?: boolean;
+}
+
+export interface InlayHintOptions extends WorkDoneProgressOptions {
+  resolveProvider?: boolean;
+}
+
+export interface InlayHintRegistrationOptions
+  extends InlayHintOptions,
+    TextDocumentRegistrationOptions,
+    StaticRegistrationOptions {}
+
+export interface InlayHintParams extends WorkDoneProgressParams {
+  textDocument: TextDocumentIdentifier;
+  range: Range;
+}
+
+export namespace InlayHintRequest {
+  export const type = new ProtocolRequestType<
+    InlayHintParams,
+    InlayHint[] | null,
+    InlayHint[],
+    void,
+    InlayHintRegistrationOptions
+  >("textDocument/inlayHint");
+}
+
+export namespace InlayHintResolveRequest {
+  export const type = new ProtocolRequestType<
+    InlayHint,
+    InlayHint,
+    never,
+    void,
+    void
+  >("inlayHint/resolve");
+}
+
+export namespace InlayHintRefreshRequest {
+  export const type = new ProtocolRequestType0<void, void, void, void>(
+    "workspace/inlayHint/refresh"
+  );
+}
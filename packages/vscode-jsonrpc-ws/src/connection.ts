@@ -6,6 +6,7 @@ import { createMessageWriter } from "./writer";
 
 /**
  * Create VSCode JSON RPC `MessageConnection` over WebSocket.
+ * The returned promise is rejected if the WebSocket is closed before it's open.
  * @param webSocket
  * @param logger
  */
@@ -13,8 +14,12 @@ export const createMessageConnection = (
   webSocket: WebSocket,
   logger: Logger = createConsoleLogger()
 ): Promise<MessageConnection> =>
-  new Promise((onConnection) => {
+  new Promise((onConnection, onError) => {
+    webSocket.onclose = (event) => {
+      onError(new Error(`WebSocket closed before open (${event.code})`));
+    };
     webSocket.onopen = () => {
+      webSocket.onclose = null;
       const conn = createMessageConnectionRW(
         createMessageReader(webSocket),
         createMessageWriter(webSocket),